@@ -7,6 +7,10 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Chat from "./pages/Chat";
 import ChatHistory from "./pages/ChatHistory";
+import SharedConversation from "./pages/SharedConversation";
+import Watchlist from "./pages/Watchlist";
+import Portfolio from "./pages/Portfolio";
+import Ticker from "./pages/Ticker";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +26,10 @@ const App = () => (
           <Route path="/auth" element={<Auth />} />
           <Route path="/chat" element={<Chat />} />
           <Route path="/chat-history" element={<ChatHistory />} />
+          <Route path="/share/:token" element={<SharedConversation />} />
+          <Route path="/watchlist" element={<Watchlist />} />
+          <Route path="/portfolio" element={<Portfolio />} />
+          <Route path="/ticker/:symbol" element={<Ticker />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
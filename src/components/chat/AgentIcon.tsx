@@ -0,0 +1,22 @@
+import { Bot, BarChart3, Bitcoin, LineChart, Newspaper, TrendingUp, Wallet, type LucideProps } from "lucide-react";
+
+const AGENT_ICONS = {
+  "bot": Bot,
+  "bar-chart": BarChart3,
+  "bitcoin": Bitcoin,
+  "line-chart": LineChart,
+  "newspaper": Newspaper,
+  "trending-up": TrendingUp,
+  "wallet": Wallet,
+};
+
+interface AgentIconProps extends LucideProps {
+  icon: string | null | undefined;
+}
+
+const AgentIcon = ({ icon, ...props }: AgentIconProps) => {
+  const Icon = AGENT_ICONS[icon as keyof typeof AGENT_ICONS] ?? Bot;
+  return <Icon {...props} />;
+};
+
+export default AgentIcon;
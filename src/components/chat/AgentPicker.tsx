@@ -0,0 +1,54 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Agent } from "@/lib/agents";
+import AgentIcon from "./AgentIcon";
+
+interface AgentPickerProps {
+  agents: Agent[];
+  value: Agent;
+  onChange: (agent: Agent) => void;
+  disabled?: boolean;
+}
+
+const AgentPicker = ({ agents, value, onChange, disabled }: AgentPickerProps) => {
+  if (agents.length <= 1) {
+    return <p className="text-sm text-muted-foreground">{value.name}</p>;
+  }
+
+  return (
+    <Select
+      value={value.id}
+      disabled={disabled}
+      onValueChange={(id) => {
+        const agent = agents.find((candidate) => candidate.id === id);
+        if (agent) onChange(agent);
+      }}
+    >
+      <SelectTrigger className="h-auto w-auto gap-1 border-0 bg-transparent p-0 text-sm text-muted-foreground hover:text-foreground focus:ring-0 focus:ring-offset-0">
+        <SelectValue>{value.name}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {agents.map((agent) => (
+          <SelectItem key={agent.id} value={agent.id}>
+            <div className="flex items-center space-x-2">
+              <AgentIcon icon={agent.icon} className="w-4 h-4 text-primary" />
+              <div>
+                <p className="text-sm">{agent.name}</p>
+                {agent.description && (
+                  <p className="text-xs text-muted-foreground">{agent.description}</p>
+                )}
+              </div>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default AgentPicker;
@@ -0,0 +1,64 @@
+import { Check, GitBranch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Branch } from "@/lib/thread";
+
+interface BranchPickerProps {
+  branches: Branch[];
+  /** Leaf of the thread currently on screen. */
+  currentLeafId: string | undefined;
+  onSelect: (branch: Branch) => void;
+  disabled?: boolean;
+}
+
+const BranchPicker = ({ branches, currentLeafId, onSelect, disabled }: BranchPickerProps) => {
+  if (branches.length <= 1) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <GitBranch className="w-4 h-4 mr-2" />
+          {branches.length} ramos
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Ramos da conversa</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {branches.map((branch, index) => (
+          <DropdownMenuItem
+            key={branch.leaf.id}
+            onSelect={() => onSelect(branch)}
+            className="flex items-start space-x-2"
+          >
+            <Check className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+              branch.leaf.id === currentLeafId ? 'opacity-100' : 'opacity-0'
+            }`} />
+            <div className="min-w-0">
+              <p className="text-sm truncate">
+                Ramo {index + 1}: {branch.fork.content}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {branch.length} mensagens · {new Date(branch.leaf.created_at).toLocaleString('pt-BR')}
+              </p>
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default BranchPicker;
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  MessageSquare,
+  MoreVertical,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import AgentIcon from "./AgentIcon";
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  pinned_at: string | null;
+  archived_at: string | null;
+  /** Agent answering the conversation. */
+  agent_name: string | null;
+  agent_icon: string | null;
+  /** Start of the latest message, null for empty conversations. */
+  last_message_content: string | null;
+  last_message_role: string | null;
+  message_count: number;
+  tickers: string[];
+}
+
+interface ConversationCardProps {
+  conversation: ConversationSummary;
+  onOpen: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onToggleArchive: () => void;
+  onDelete: () => void;
+}
+
+interface CardAction {
+  label: string;
+  icon: LucideIcon;
+  onSelect: () => void;
+  destructive?: boolean;
+}
+
+const MAX_TICKERS = 4;
+
+const ConversationCard = ({
+  conversation,
+  onOpen,
+  onRename,
+  onTogglePin,
+  onToggleArchive,
+  onDelete,
+}: ConversationCardProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(conversation.title);
+  const isArchived = Boolean(conversation.archived_at);
+
+  const startRenaming = () => {
+    setDraftTitle(conversation.title);
+    setIsRenaming(true);
+  };
+
+  const submitRename = () => {
+    const title = draftTitle.trim();
+    if (!title) return;
+    setIsRenaming(false);
+    if (title !== conversation.title) onRename(title);
+  };
+
+  // Archived conversations cannot be pinned; archiving drops the pin
+  const actions: CardAction[] = [
+    { label: "Renomear", icon: Pencil, onSelect: startRenaming },
+    ...(isArchived ? [] : [{
+      label: conversation.pinned_at ? "Desafixar" : "Fixar no topo",
+      icon: conversation.pinned_at ? PinOff : Pin,
+      onSelect: onTogglePin,
+    }]),
+    {
+      label: isArchived ? "Desarquivar" : "Arquivar",
+      icon: isArchived ? ArchiveRestore : Archive,
+      onSelect: onToggleArchive,
+    },
+  ];
+  const deleteAction: CardAction = {
+    label: "Excluir",
+    icon: Trash2,
+    onSelect: () => setIsConfirmingDelete(true),
+    destructive: true,
+  };
+
+  const renderItem = (Item: typeof ContextMenuItem | typeof DropdownMenuItem) =>
+    ({ label, icon: Icon, onSelect, destructive }: CardAction) => (
+      <Item
+        key={label}
+        onSelect={onSelect}
+        className={destructive ? 'text-destructive focus:text-destructive' : undefined}
+      >
+        <Icon className="w-4 h-4 mr-2" />
+        {label}
+      </Item>
+    );
+
+  return (
+    <>
+      <ContextMenu modal={false}>
+        <ContextMenuTrigger asChild>
+          <Card
+            className="trading-card border-border/50 hover:border-primary/30 smooth-transition cursor-pointer"
+            onClick={onOpen}
+          >
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center space-x-2 min-w-0">
+                  {conversation.pinned_at && !isArchived && (
+                    <Pin className="w-3.5 h-3.5 text-primary flex-shrink-0" aria-label="Fixada" />
+                  )}
+                  <CardTitle className="text-sm font-medium text-foreground truncate">
+                    {conversation.title}
+                  </CardTitle>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <Badge variant="secondary" className="text-xs">
+                    {new Date(conversation.updated_at).toLocaleDateString('pt-BR')}
+                  </Badge>
+                  <DropdownMenu modal={false}>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => e.stopPropagation()}
+                        className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                        title="Opções da conversa"
+                        aria-label="Opções da conversa"
+                      >
+                        <MoreVertical className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    {/* The menu renders in a portal, but its clicks still bubble to the card */}
+                    <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                      {actions.map(renderItem(DropdownMenuItem))}
+                      <DropdownMenuSeparator />
+                      {renderItem(DropdownMenuItem)(deleteAction)}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="pt-0 space-y-3">
+              {conversation.last_message_content && (
+                <p className="text-sm text-muted-foreground line-clamp-2">
+                  {conversation.last_message_role === 'user' && (
+                    <span className="text-foreground">Você: </span>
+                  )}
+                  {conversation.last_message_content}
+                </p>
+              )}
+              {conversation.tickers.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {conversation.tickers.slice(0, MAX_TICKERS).map((ticker) => (
+                    <Badge key={ticker} variant="outline" className="text-xs font-mono">
+                      {ticker}
+                    </Badge>
+                  ))}
+                  {conversation.tickers.length > MAX_TICKERS && (
+                    <Badge variant="outline" className="text-xs">
+                      +{conversation.tickers.length - MAX_TICKERS}
+                    </Badge>
+                  )}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                {conversation.agent_name && (
+                  <span className="flex items-center">
+                    <AgentIcon icon={conversation.agent_icon} className="w-3 h-3 mr-1" />
+                    {conversation.agent_name}
+                  </span>
+                )}
+                <span className="flex items-center">
+                  <MessageSquare className="w-3 h-3 mr-1" />
+                  {conversation.message_count === 1
+                    ? "1 mensagem"
+                    : `${conversation.message_count} mensagens`}
+                </span>
+                <span>
+                  Última atividade: {new Date(conversation.updated_at).toLocaleString('pt-BR')}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        </ContextMenuTrigger>
+        <ContextMenuContent>
+          {actions.map(renderItem(ContextMenuItem))}
+          <ContextMenuSeparator />
+          {renderItem(ContextMenuItem)(deleteAction)}
+        </ContextMenuContent>
+      </ContextMenu>
+
+      <Dialog open={isRenaming} onOpenChange={setIsRenaming}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Renomear conversa</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                submitRename();
+              }
+            }}
+            maxLength={120}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsRenaming(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={submitRename}
+              disabled={!draftTitle.trim()}
+              className="trading-gradient text-primary-foreground hover:opacity-90"
+            >
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir conversa?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{conversation.title}" e todas as suas mensagens serão excluídas
+              permanentemente. Essa ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={onDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ConversationCard;
@@ -0,0 +1,62 @@
+import { CalendarIcon, X } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+import { ptBR } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface DateRangeFilterProps {
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+}
+
+const formatDay = (date: Date) => date.toLocaleDateString('pt-BR');
+
+const describeRange = (range: DateRange | undefined) => {
+  if (!range?.from) return "Qualquer data";
+  if (!range.to || range.to.getTime() === range.from.getTime()) return formatDay(range.from);
+  return `${formatDay(range.from)} – ${formatDay(range.to)}`;
+};
+
+const DateRangeFilter = ({ value, onChange }: DateRangeFilterProps) => (
+  <div className="flex items-center">
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={`justify-start font-normal ${value?.from ? 'text-foreground' : 'text-muted-foreground'}`}
+        >
+          <CalendarIcon className="w-4 h-4 mr-2" />
+          {describeRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          selected={value}
+          onSelect={onChange}
+          defaultMonth={value?.from}
+          numberOfMonths={2}
+          locale={ptBR}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+    {value?.from && (
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onChange(undefined)}
+        className="h-8 w-8 text-muted-foreground hover:text-foreground"
+        title="Limpar período"
+        aria-label="Limpar período"
+      >
+        <X className="w-4 h-4" />
+      </Button>
+    )}
+  </div>
+);
+
+export default DateRangeFilter;
@@ -0,0 +1,53 @@
+import { Download, FileJson, FileText, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ExportFormat } from "@/lib/conversation-export";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  /** Menu heading, e.g. how many conversations will be exported. */
+  label?: string;
+  isExporting?: boolean;
+  disabled?: boolean;
+}
+
+const ExportMenu = ({ onExport, label = "Exportar conversa", isExporting, disabled }: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant="outline"
+        size="icon"
+        disabled={disabled || isExporting}
+        title={label}
+        aria-label={label}
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel>{label}</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onSelect={() => onExport("markdown")}>
+        <FileText className="w-4 h-4 mr-2" />
+        Markdown (.md)
+      </DropdownMenuItem>
+      <DropdownMenuItem onSelect={() => onExport("json")}>
+        <FileJson className="w-4 h-4 mr-2" />
+        JSON (.json)
+      </DropdownMenuItem>
+      <DropdownMenuItem onSelect={() => onExport("pdf")}>
+        <Printer className="w-4 h-4 mr-2" />
+        PDF (imprimir)
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default ExportMenu;
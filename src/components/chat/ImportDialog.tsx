@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { AlertCircle, FileUp, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  ArchiveValidationError,
+  type ImportCandidate,
+  type ImportStatus,
+  importConversations,
+  parseArchive,
+  planImport,
+} from "@/lib/conversation-import";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  onImported: () => void;
+}
+
+const STATUS_LABELS: Record<ImportStatus, { label: string; variant: "secondary" | "outline" | "destructive" }> = {
+  new: { label: "Nova", variant: "secondary" },
+  duplicate: { label: "Já importada", variant: "destructive" },
+  title_conflict: { label: "Título em uso", variant: "outline" },
+};
+
+const formatPeriod = ({ messages, created_at }: ImportCandidate["conversation"]) => {
+  const first = new Date(messages[0]?.created_at ?? created_at).toLocaleDateString('pt-BR');
+  const last = new Date(messages[messages.length - 1]?.created_at ?? created_at).toLocaleDateString('pt-BR');
+  return first === last ? first : `${first} – ${last}`;
+};
+
+const ImportDialog = ({ open, onOpenChange, userId, onImported }: ImportDialogProps) => {
+  const [candidates, setCandidates] = useState<ImportCandidate[] | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setCandidates(null);
+    setIssues([]);
+  };
+
+  const changeOpen = (next: boolean) => {
+    if (isImporting) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const readFile = async (file: File) => {
+    reset();
+    setIsReading(true);
+    try {
+      const archive = parseArchive(await file.text());
+      setCandidates(await planImport(archive, userId));
+    } catch (error) {
+      if (error instanceof ArchiveValidationError) {
+        setIssues(error.issues);
+      } else {
+        console.error('Erro ao analisar arquivo de conversas:', error);
+        setIssues(["Não foi possível comparar o arquivo com suas conversas"]);
+      }
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggleCandidate = (index: number, include: boolean) => {
+    setCandidates(prev => prev && prev.map((candidate, position) =>
+      position === index ? { ...candidate, include } : candidate
+    ));
+  };
+
+  const runImport = async () => {
+    if (!candidates) return;
+
+    setIsImporting(true);
+    try {
+      const count = await importConversations(candidates, userId);
+      toast({
+        title: "Importação concluída",
+        description: count === 1 ? "1 conversa importada" : `${count} conversas importadas`,
+      });
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Erro ao importar conversas:', error);
+      toast({
+        title: "Erro",
+        description: "A importação foi interrompida; as conversas já importadas foram mantidas",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+      onImported();
+    }
+  };
+
+  const countBy = (status: ImportStatus) =>
+    candidates?.filter(candidate => candidate.status === status).length ?? 0;
+  const selectedCount = candidates?.filter(candidate => candidate.include).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={changeOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Importar conversas</DialogTitle>
+          <DialogDescription>
+            Escolha um arquivo JSON exportado do Agente Trader. As conversas são
+            criadas na sua conta com as datas originais.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <Input
+            type="file"
+            accept="application/json,.json"
+            disabled={isReading || isImporting}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) readFile(file);
+            }}
+          />
+          {isReading && <Loader2 className="w-4 h-4 animate-spin text-primary flex-shrink-0" />}
+        </div>
+
+        {issues.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Arquivo inválido</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {issues.map((issue) => <li key={issue}>{issue}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {candidates && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {candidates.length} conversas no arquivo · {countBy("new")} novas ·{" "}
+              {countBy("duplicate")} já importadas · {countBy("title_conflict")} com título em uso
+            </p>
+            <div className="max-h-80 overflow-y-auto rounded-md border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Título</TableHead>
+                    <TableHead className="text-right">Mensagens</TableHead>
+                    <TableHead>Período</TableHead>
+                    <TableHead>Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.map((candidate, index) => (
+                    <TableRow key={`${candidate.conversation.id}-${index}`}>
+                      <TableCell>
+                        <Checkbox
+                          checked={candidate.include}
+                          onCheckedChange={(checked) => toggleCandidate(index, checked === true)}
+                          disabled={isImporting}
+                          aria-label={`Importar ${candidate.conversation.title}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium max-w-[16rem] truncate">
+                        {candidate.conversation.title}
+                      </TableCell>
+                      <TableCell className="text-right">{candidate.conversation.messages.length}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatPeriod(candidate.conversation)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_LABELS[candidate.status].variant} className="text-xs">
+                          {STATUS_LABELS[candidate.status].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => changeOpen(false)} disabled={isImporting}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={runImport}
+            disabled={!candidates || selectedCount === 0 || isImporting}
+            className="trading-gradient text-primary-foreground hover:opacity-90"
+          >
+            {isImporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <FileUp className="w-4 h-4 mr-2" />
+            )}
+            Importar {selectedCount > 0 ? selectedCount : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
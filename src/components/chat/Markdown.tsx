@@ -0,0 +1,53 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+import rehypeSanitize from "rehype-sanitize";
+import "highlight.js/styles/github-dark.css";
+import { cn } from "@/lib/utils";
+
+// Raw HTML in agent replies is never rendered: react-markdown escapes it (no
+// rehype-raw), and the sanitizer runs before highlighting as a second line of
+// defence. Unsafe link protocols (javascript:, data:) are dropped by
+// react-markdown's default URL transform.
+const components: Components = {
+  a: ({ node, href, children, ...props }) => (
+    <a {...props} href={href} target="_blank" rel="noopener noreferrer nofollow">
+      {children}
+    </a>
+  ),
+  table: ({ node, children, ...props }) => (
+    <div className="overflow-x-auto rounded-lg border border-border/50">
+      <table {...props}>{children}</table>
+    </div>
+  ),
+};
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+const Markdown = ({ content, className }: MarkdownProps) => (
+  <div
+    className={cn(
+      "prose prose-sm prose-invert max-w-none leading-relaxed",
+      "prose-headings:text-foreground prose-headings:font-semibold prose-strong:text-foreground",
+      "prose-a:text-primary prose-a:no-underline hover:prose-a:underline",
+      "prose-code:text-primary prose-code:before:content-none prose-code:after:content-none",
+      "prose-pre:bg-background/60 prose-pre:border prose-pre:border-border/50",
+      "prose-table:my-0 prose-table:text-xs prose-th:px-3 prose-th:py-2 prose-th:text-foreground prose-td:px-3 prose-td:py-2",
+      "prose-thead:border-border prose-tr:border-border/50",
+      className
+    )}
+  >
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[rehypeSanitize, rehypeHighlight]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Bot, ChevronLeft, ChevronRight, Pencil, RefreshCw, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { Message } from "@/lib/messages";
+import Markdown from "./Markdown";
+import MessageStatusIndicator from "./MessageStatusIndicator";
+import MessageBlocks from "./blocks/MessageBlocks";
+
+interface MessageBubbleProps {
+  message: Message;
+  /** Every version at this position of the thread, oldest first. */
+  versions: Message[];
+  versionIndex: number;
+  onSelectVersion: (message: Message) => void;
+  // Controls whose handler is left out are hidden, e.g. on shared links
+  onRetry?: () => void;
+  onRegenerate?: () => void;
+  /** Sends an edited copy of a user message as a new branch. */
+  onEdit?: (content: string) => void;
+  /** Sends the prompt of an action button as the next message. */
+  onAction?: (prompt: string) => void;
+  /** Marks the message the user jumped to, e.g. from a search result. */
+  highlighted?: boolean;
+  disabled?: boolean;
+}
+
+const MessageBubble = ({
+  message,
+  versions,
+  versionIndex,
+  onSelectVersion,
+  onRetry,
+  onRegenerate,
+  onEdit,
+  onAction,
+  highlighted,
+  disabled,
+}: MessageBubbleProps) => {
+  const isUser = message.role === 'user';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = draft.trim();
+    if (!content) return;
+    setIsEditing(false);
+    if (content !== message.content) onEdit?.(content);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex justify-end">
+        <div className="w-full max-w-[80%] space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                submitEdit();
+              } else if (e.key === 'Escape') {
+                setIsEditing(false);
+              }
+            }}
+            className="bg-input border-border/50 focus:border-primary text-sm"
+            autoFocus
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+              Cancelar
+            </Button>
+            <Button
+              size="sm"
+              onClick={submitEdit}
+              disabled={!draft.trim() || disabled}
+              className="trading-gradient text-primary-foreground hover:opacity-90"
+            >
+              Enviar
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-message-id={message.id}
+      className={`flex items-start space-x-3 ${
+        isUser ? 'flex-row-reverse space-x-reverse' : ''
+      }`}
+    >
+      <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
+        isUser
+          ? 'bg-primary text-primary-foreground'
+          : 'trading-gradient text-primary-foreground'
+      }`}>
+        {isUser ? (
+          <User className="w-4 h-4" />
+        ) : (
+          <Bot className="w-4 h-4" />
+        )}
+      </div>
+
+      <div className={`max-w-[80%] rounded-2xl p-4 animate-slide-up ${
+        isUser
+          ? 'bg-primary text-primary-foreground'
+          : 'trading-card border border-border/50'
+      } ${highlighted ? 'ring-2 ring-warning ring-offset-2 ring-offset-background' : ''}`}>
+        {message.status === 'processing' ? (
+          <p className="text-sm text-muted-foreground">
+            O agente está preparando uma análise mais longa. A resposta aparece aqui
+            quando ficar pronta, mesmo que você saia da página.
+          </p>
+        ) : message.blocks ? (
+          <MessageBlocks
+            blocks={message.blocks}
+            onAction={(prompt) => onAction?.(prompt)}
+            disabled={disabled || !onAction}
+          />
+        ) : isUser ? (
+          <p className="text-sm leading-relaxed whitespace-pre-wrap">
+            {message.content}
+          </p>
+        ) : (
+          <Markdown content={message.content} />
+        )}
+        <div className="flex items-center justify-between gap-3 mt-2">
+          <div className="flex items-center space-x-2">
+            <span className="text-xs opacity-70">
+              {new Date(message.created_at).toLocaleTimeString('pt-BR', {
+                hour: '2-digit',
+                minute: '2-digit'
+              })}
+            </span>
+            {versions.length > 1 && (
+              <div className="flex items-center text-xs opacity-70">
+                <button
+                  type="button"
+                  onClick={() => onSelectVersion(versions[versionIndex - 1])}
+                  disabled={disabled || versionIndex === 0}
+                  className="p-0.5 disabled:opacity-40"
+                  aria-label="Versão anterior"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </button>
+                <span>{versionIndex + 1}/{versions.length}</span>
+                <button
+                  type="button"
+                  onClick={() => onSelectVersion(versions[versionIndex + 1])}
+                  disabled={disabled || versionIndex === versions.length - 1}
+                  className="p-0.5 disabled:opacity-40"
+                  aria-label="Próxima versão"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            {message.status && onRetry && (
+              <MessageStatusIndicator
+                status={message.status}
+                isReply={!isUser}
+                onRetry={onRetry}
+                disabled={disabled}
+              />
+            )}
+            {isUser && onEdit && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={startEditing}
+                disabled={disabled}
+                className="h-6 w-6 text-primary-foreground/70 hover:text-primary-foreground hover:bg-primary-foreground/10"
+                title="Editar mensagem"
+                aria-label="Editar mensagem"
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+            )}
+            {!isUser && onRegenerate && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onRegenerate}
+                disabled={disabled}
+                className="h-6 w-6 text-muted-foreground hover:text-foreground"
+                title="Gerar nova resposta"
+                aria-label="Gerar nova resposta"
+              >
+                <RefreshCw className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageBubble;
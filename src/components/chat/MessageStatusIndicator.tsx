@@ -0,0 +1,71 @@
+import { AlertCircle, Check, CheckCheck, Clock, Loader2, RotateCcw, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { MessageStatus } from "@/lib/messages";
+
+interface MessageStatusIndicatorProps {
+  status: MessageStatus;
+  /** Assistant replies fail to arrive rather than to be sent. */
+  isReply?: boolean;
+  onRetry?: () => void;
+  disabled?: boolean;
+}
+
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  pending: "Enviando",
+  sent: "Enviada",
+  answered: "Respondida",
+  failed: "Falha no envio",
+  interrupted: "Interrompida",
+  processing: "Processando",
+};
+
+const MessageStatusIndicator = ({ status, isReply, onRetry, disabled }: MessageStatusIndicatorProps) => {
+  if (status === "failed") {
+    return (
+      <div className="flex items-center space-x-2 text-xs">
+        <span className="flex items-center space-x-1">
+          <AlertCircle className="w-3 h-3" />
+          <span>{isReply ? "Falha na resposta" : STATUS_LABELS.failed}</span>
+        </span>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onRetry}
+          disabled={disabled}
+          className="h-6 px-2 text-xs"
+        >
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Tentar novamente
+        </Button>
+      </div>
+    );
+  }
+
+  if (status === "interrupted") {
+    return (
+      <span className="flex items-center space-x-1 text-xs opacity-70">
+        <Square className="w-3 h-3" />
+        <span>{STATUS_LABELS.interrupted}</span>
+      </span>
+    );
+  }
+
+  if (status === "processing") {
+    return (
+      <span className="flex items-center space-x-1 text-xs opacity-70">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        <span>{STATUS_LABELS.processing}</span>
+      </span>
+    );
+  }
+
+  const Icon = status === "pending" ? Clock : status === "sent" ? Check : CheckCheck;
+
+  return (
+    <span className="opacity-70" title={STATUS_LABELS[status]} aria-label={STATUS_LABELS[status]}>
+      <Icon className="w-3 h-3" />
+    </span>
+  );
+};
+
+export default MessageStatusIndicator;
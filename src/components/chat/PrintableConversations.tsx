@@ -0,0 +1,74 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import {
+  type ConversationArchive,
+  exportFileName,
+  exportedText,
+  getExportedThread,
+  roleLabel,
+} from "@/lib/conversation-export";
+import { formatDateTime } from "@/lib/format";
+import type { VersionSelection } from "@/lib/thread";
+
+// Standalone page for printing conversations: light colours and its own
+// styles, since it renders outside the app (see lib/print-conversations).
+
+const PRINT_STYLES = `
+  @page { margin: 18mm 16mm; }
+  body { font: 11pt/1.5 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111; margin: 0; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  .meta { color: #555; font-size: 9pt; margin-bottom: 16pt; }
+  .conversation + .conversation { break-before: page; }
+  .message { border-top: 1px solid #ddd; padding: 8pt 0; break-inside: avoid-page; }
+  .message-header { font-size: 9pt; color: #555; margin-bottom: 4pt; }
+  .message-header strong { color: #111; }
+  .message.user .message-header strong { color: #0b6e4f; }
+  pre, code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 9pt; }
+  pre { background: #f5f5f5; padding: 6pt; white-space: pre-wrap; word-break: break-word; }
+  table { border-collapse: collapse; font-size: 9pt; margin: 6pt 0; }
+  th, td { border: 1px solid #ccc; padding: 3pt 6pt; text-align: left; }
+  a { color: #0b6e4f; }
+`;
+
+interface PrintableConversationsProps {
+  archive: ConversationArchive;
+  selection?: VersionSelection;
+}
+
+const PrintableConversations = ({ archive, selection }: PrintableConversationsProps) => (
+  <html lang="pt-BR">
+    <head>
+      <meta charSet="utf-8" />
+      <title>{exportFileName(archive)}</title>
+      {/* As a child, React would escape the quotes in the font names */}
+      <style dangerouslySetInnerHTML={{ __html: PRINT_STYLES }} />
+    </head>
+    <body>
+      {archive.conversations.map((conversation) => (
+        <section key={conversation.id} className="conversation">
+          <h1>{conversation.title}</h1>
+          <div className="meta">
+            {conversation.agent && <>Agente: {conversation.agent} · </>}
+            Criada em {formatDateTime(conversation.created_at)} ·
+            Exportada em {formatDateTime(archive.exported_at)}
+          </div>
+          {getExportedThread(conversation, selection).map((message) => (
+            <article key={message.id} className={`message ${message.role}`}>
+              <div className="message-header">
+                <strong>{roleLabel(message.role, conversation.agent)}</strong>
+                {" · "}
+                {formatDateTime(message.created_at)}
+              </div>
+              <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]}>
+                {exportedText(message)}
+              </ReactMarkdown>
+            </article>
+          ))}
+        </section>
+      ))}
+    </body>
+  </html>
+);
+
+export default PrintableConversations;
@@ -0,0 +1,73 @@
+import { Bot, MessageSquare, SearchX, User } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { type SearchResult, splitSnippet } from "@/lib/search";
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  onOpen: (result: SearchResult) => void;
+}
+
+const Snippet = ({ snippet }: { snippet: string }) => (
+  <>
+    {splitSnippet(snippet).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="bg-primary/25 text-foreground rounded-sm px-0.5">
+          {part.text}
+        </mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </>
+);
+
+const ResultIcon = ({ result }: { result: SearchResult }) => {
+  const className = "w-4 h-4 text-muted-foreground flex-shrink-0";
+  if (!result.messageId) return <MessageSquare className={className} />;
+  return result.role === 'user' ? <User className={className} /> : <Bot className={className} />;
+};
+
+const SearchResults = ({ results, onOpen }: SearchResultsProps) => {
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-12 space-y-3">
+        <SearchX className="w-12 h-12 text-muted-foreground mx-auto opacity-50" />
+        <p className="text-muted-foreground">Nenhum resultado encontrado</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {results.map((result) => (
+        <Card
+          key={result.messageId ?? result.conversationId}
+          className="trading-card border-border/50 hover:border-primary/30 smooth-transition cursor-pointer"
+          onClick={() => onOpen(result)}
+        >
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center space-x-2 min-w-0">
+                <ResultIcon result={result} />
+                <CardTitle className="text-sm font-medium text-foreground truncate">
+                  {result.messageId ? result.conversationTitle : <Snippet snippet={result.snippet} />}
+                </CardTitle>
+              </div>
+              <Badge variant="secondary" className="text-xs flex-shrink-0">
+                {new Date(result.createdAt).toLocaleDateString('pt-BR')}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <p className="text-sm text-muted-foreground line-clamp-3">
+              {result.messageId ? <Snippet snippet={result.snippet} /> : "Título da conversa"}
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { Copy, Link2, Link2Off, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  SHARE_EXPIRATIONS,
+  type ShareLink,
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  shareUrl,
+} from "@/lib/conversation-share";
+import { formatDateTime } from "@/lib/format";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  /** Conversation to share; without it the dialog lists every active link. */
+  conversationId?: string;
+}
+
+const ShareDialog = ({ open, onOpenChange, userId, conversationId }: ShareDialogProps) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expiration, setExpiration] = useState("0");
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setLoading(true);
+    listShareLinks(userId, conversationId)
+      .then((result) => {
+        if (!cancelled) setLinks(result);
+      })
+      .catch((error) => {
+        console.error('Erro ao carregar links compartilhados:', error);
+        if (!cancelled) {
+          toast({
+            title: "Erro",
+            description: "Não foi possível carregar os links compartilhados",
+            variant: "destructive",
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId, conversationId, toast]);
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.token));
+      toast({ title: "Link copiado", description: "Qualquer pessoa com o link pode ler a conversa" });
+    } catch (error) {
+      console.error('Erro ao copiar link:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível copiar o link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createLink = async () => {
+    if (!conversationId) return;
+
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(conversationId, userId, SHARE_EXPIRATIONS[Number(expiration)].days);
+      setLinks(prev => [link, ...prev]);
+      await copyLink(link);
+    } catch (error) {
+      console.error('Erro ao criar link:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível criar o link",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeLink = async (link: ShareLink) => {
+    setRevokingId(link.id);
+    try {
+      await revokeShareLink(link.id);
+      setLinks(prev => prev.filter(item => item.id !== link.id));
+      toast({ title: "Link revogado", description: "O link não abre mais a conversa" });
+    } catch (error) {
+      console.error('Erro ao revogar link:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível revogar o link",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{conversationId ? "Compartilhar conversa" : "Links compartilhados"}</DialogTitle>
+          <DialogDescription>
+            Quem tiver o link pode ler a conversa, sem entrar na sua conta e sem enviar mensagens.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conversationId && (
+          <div className="flex items-center space-x-2">
+            <Select value={expiration} onValueChange={setExpiration} disabled={isCreating}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_EXPIRATIONS.map((option, index) => (
+                  <SelectItem key={option.label} value={String(index)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={createLink}
+              disabled={isCreating}
+              className="trading-gradient text-primary-foreground hover:opacity-90"
+            >
+              {isCreating ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Link2 className="w-4 h-4 mr-2" />
+              )}
+              Criar link
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nenhum link ativo</p>
+          ) : (
+            links.map((link) => (
+              <div
+                key={link.id}
+                className="flex items-center gap-2 rounded-md border border-border/50 p-3"
+              >
+                <div className="min-w-0 flex-1">
+                  {!conversationId && (
+                    <p className="text-sm font-medium text-foreground truncate">{link.conversationTitle}</p>
+                  )}
+                  <p className="text-xs font-mono text-muted-foreground truncate">{shareUrl(link.token)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Criado em {formatDateTime(link.createdAt)} ·{" "}
+                    {link.expiresAt ? `expira em ${formatDateTime(link.expiresAt)}` : "sem expiração"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => copyLink(link)}
+                  title="Copiar link"
+                  aria-label="Copiar link"
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => revokeLink(link)}
+                  disabled={revokingId === link.id}
+                  className="text-destructive hover:text-destructive"
+                  title="Revogar link"
+                  aria-label="Revogar link"
+                >
+                  {revokingId === link.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Link2Off className="w-4 h-4" />
+                  )}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,27 @@
+import { Button } from "@/components/ui/button";
+import type { ActionsBlock as ActionsBlockData } from "@/lib/agent-protocol";
+
+type ActionsBlockProps = {
+  block: ActionsBlockData;
+  onAction: (prompt: string) => void;
+  disabled?: boolean;
+};
+
+const ActionsBlock = ({ block, onAction, disabled }: ActionsBlockProps) => (
+  <div className="flex flex-wrap gap-2">
+    {block.actions.map((action, index) => (
+      <Button
+        key={index}
+        variant="outline"
+        size="sm"
+        onClick={() => onAction(action.prompt)}
+        disabled={disabled}
+        className="border-primary/40 text-primary hover:bg-primary/10 hover:text-primary"
+      >
+        {action.label}
+      </Button>
+    ))}
+  </div>
+);
+
+export default ActionsBlock;
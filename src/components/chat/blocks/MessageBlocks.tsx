@@ -0,0 +1,44 @@
+import { type MessageBlock, blocksToPlainText } from "@/lib/agent-protocol";
+import Markdown from "../Markdown";
+import ActionsBlock from "./ActionsBlock";
+import MetricsBlock from "./MetricsBlock";
+import PriceChartBlock from "./PriceChartBlock";
+import TableBlock from "./TableBlock";
+import TickerCardBlock from "./TickerCardBlock";
+
+interface MessageBlocksProps {
+  blocks: MessageBlock[];
+  onAction: (prompt: string) => void;
+  disabled?: boolean;
+}
+
+const MessageBlocks = ({ blocks, onAction, disabled }: MessageBlocksProps) => (
+  <div className="space-y-3">
+    {blocks.map((block, index) => {
+      switch (block.type) {
+        case "text":
+          return <Markdown key={index} content={block.text} />;
+        case "table":
+          return <TableBlock key={index} block={block} />;
+        case "price_chart":
+          return <PriceChartBlock key={index} block={block} />;
+        case "ticker_card":
+          return <TickerCardBlock key={index} block={block} />;
+        case "metrics":
+          return <MetricsBlock key={index} block={block} />;
+        case "actions":
+          return <ActionsBlock key={index} block={block} onAction={onAction} disabled={disabled} />;
+        default: {
+          const fallback = blocksToPlainText([block]);
+          return fallback ? (
+            <p key={index} className="text-sm leading-relaxed whitespace-pre-wrap">
+              {fallback}
+            </p>
+          ) : null;
+        }
+      }
+    })}
+  </div>
+);
+
+export default MessageBlocks;
@@ -0,0 +1,22 @@
+import type { MetricsBlock as MetricsBlockData } from "@/lib/agent-protocol";
+import { formatNumber } from "@/lib/format";
+
+type MetricsBlockProps = { block: MetricsBlockData };
+
+const MetricsBlock = ({ block }: MetricsBlockProps) => (
+  <div className="space-y-2">
+    {block.title && <p className="text-xs font-medium text-muted-foreground">{block.title}</p>}
+    <dl className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+      {block.items.map((item, index) => (
+        <div key={index} className="rounded-lg border border-border/50 bg-secondary/40 p-2" title={item.hint}>
+          <dt className="text-xs text-muted-foreground">{item.label}</dt>
+          <dd className="text-sm font-semibold tabular-nums">
+            {typeof item.value === "number" ? formatNumber(item.value) : item.value}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  </div>
+);
+
+export default MetricsBlock;
@@ -0,0 +1,68 @@
+import { useId } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { PriceChartBlock as PriceChartBlockData } from "@/lib/agent-protocol";
+import { formatCurrency } from "@/lib/format";
+
+type PriceChartBlockProps = { block: PriceChartBlockData };
+
+const formatTime = (time: string) => {
+  const date = new Date(time);
+  if (Number.isNaN(date.getTime())) return time;
+  return date.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit" });
+};
+
+const PriceChartBlock = ({ block }: PriceChartBlockProps) => {
+  // Unique per chart (two messages may chart the same symbol) and safe inside url(#…)
+  const fillId = `fill-${useId().replace(/:/g, "")}`;
+  const config: ChartConfig = {
+    price: { label: block.symbol, color: "hsl(var(--primary))" },
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">{block.symbol}</p>
+      <ChartContainer config={config} className="aspect-[2/1] w-full">
+        <AreaChart data={block.points} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+          <defs>
+            <linearGradient id={fillId} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="var(--color-price)" stopOpacity={0.4} />
+              <stop offset="95%" stopColor="var(--color-price)" stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" tickLine={false} axisLine={false} tickFormatter={formatTime} minTickGap={24} />
+          <YAxis
+            domain={["auto", "auto"]}
+            tickLine={false}
+            axisLine={false}
+            width={72}
+            tickFormatter={(value: number) => formatCurrency(value, block.currency)}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => formatTime(payload?.[0]?.payload?.time ?? "")}
+                formatter={(value) => formatCurrency(Number(value), block.currency)}
+              />
+            }
+          />
+          <Area
+            dataKey="price"
+            type="monotone"
+            stroke="var(--color-price)"
+            fill={`url(#${fillId})`}
+            strokeWidth={2}
+          />
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default PriceChartBlock;
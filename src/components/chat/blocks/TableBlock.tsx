@@ -0,0 +1,44 @@
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { TableBlock as TableBlockData } from "@/lib/agent-protocol";
+import { formatNumber } from "@/lib/format";
+
+type TableBlockProps = { block: TableBlockData };
+
+const TableBlock = ({ block }: TableBlockProps) => (
+  <div className="rounded-lg border border-border/50 overflow-x-auto">
+    <Table>
+      {block.title && <TableCaption className="mt-2 mb-2">{block.title}</TableCaption>}
+      <TableHeader>
+        <TableRow>
+          {block.columns.map((column, index) => (
+            <TableHead key={index} className="h-9 text-xs">{column}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {block.rows.map((row, rowIndex) => (
+          <TableRow key={rowIndex}>
+            {row.map((cell, cellIndex) => (
+              <TableCell
+                key={cellIndex}
+                className={`py-2 text-xs ${typeof cell === "number" ? "text-right tabular-nums" : ""}`}
+              >
+                {typeof cell === "number" ? formatNumber(cell) : cell ?? "—"}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export default TableBlock;
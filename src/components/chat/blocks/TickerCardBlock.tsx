@@ -0,0 +1,34 @@
+import { TrendingDown, TrendingUp } from "lucide-react";
+import type { TickerCardBlock as TickerCardBlockData } from "@/lib/agent-protocol";
+import { formatCurrency, formatPercent } from "@/lib/format";
+
+type TickerCardBlockProps = { block: TickerCardBlockData };
+
+const TickerCardBlock = ({ block }: TickerCardBlockProps) => {
+  const change = block.change_percent ?? block.change;
+  const isUp = change === undefined || change >= 0;
+  const Trend = isUp ? TrendingUp : TrendingDown;
+
+  return (
+    <div className="flex items-center justify-between rounded-lg border border-border/50 bg-secondary/40 p-3">
+      <div>
+        <p className="font-semibold text-foreground">{block.symbol}</p>
+        {block.name && <p className="text-xs text-muted-foreground">{block.name}</p>}
+      </div>
+      <div className="text-right">
+        <p className="font-semibold tabular-nums">{formatCurrency(block.price, block.currency)}</p>
+        {change !== undefined && (
+          <p className={`flex items-center justify-end text-xs tabular-nums ${
+            isUp ? "text-success" : "text-destructive"
+          }`}>
+            <Trend className="w-3 h-3 mr-1" />
+            {block.change !== undefined && `${formatCurrency(block.change, block.currency)} `}
+            {block.change_percent !== undefined && `(${formatPercent(block.change_percent)})`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TickerCardBlock;
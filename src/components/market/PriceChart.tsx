@@ -0,0 +1,327 @@
+import { useMemo, useState } from "react";
+import {
+  Area,
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Customized,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { type ChartConfig, ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import { formatCurrency, formatNumber } from "@/lib/format";
+import { bollingerBands, sma } from "@/lib/indicators";
+import type { Candle } from "@/lib/market-data";
+
+export type ChartView = "candles" | "line";
+
+export interface ChartOverlays {
+  sma20: boolean;
+  sma50: boolean;
+  bollinger: boolean;
+}
+
+interface PriceChartProps {
+  /** Oldest first; may start before `visibleFrom` to warm up the overlays. */
+  candles: Candle[];
+  visibleFrom: number;
+  intraday: boolean;
+  view: ChartView;
+  overlays: ChartOverlays;
+}
+
+interface ChartPoint extends Candle {
+  range: [number, number];
+  up: boolean;
+  sma20: number | null;
+  sma50: number | null;
+  bollinger: [number, number] | null;
+}
+
+const UP_COLOR = "hsl(var(--success))";
+const DOWN_COLOR = "hsl(var(--destructive))";
+
+const config: ChartConfig = {
+  close: { label: "Fechamento", color: "hsl(var(--primary))" },
+  sma20: { label: "MM 20", color: "hsl(var(--warning))" },
+  sma50: { label: "MM 50", color: "hsl(280 80% 70%)" },
+  bollinger: { label: "Bollinger (20, 2)", color: "hsl(var(--accent))" },
+};
+
+const B3_TIME_ZONE = "America/Sao_Paulo";
+
+const formatAxisTime = (time: string, intraday: boolean) => {
+  if (intraday) {
+    return new Date(time).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit", timeZone: B3_TIME_ZONE });
+  }
+  const [year, month, day] = time.split("-");
+  return `${day}/${month}/${year.slice(2)}`;
+};
+
+const formatTooltipTime = (time: string, intraday: boolean) => {
+  if (intraday) {
+    return new Date(time).toLocaleString("pt-BR", {
+      day: "2-digit",
+      month: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone: B3_TIME_ZONE,
+    });
+  }
+  const [year, month, day] = time.split("-");
+  return `${day}/${month}/${year}`;
+};
+
+// Drawn over the [low, high] bar: the bar is the wick, the body is scaled inside it
+const CandleShape = (props: { x?: number; y?: number; width?: number; height?: number; payload?: ChartPoint }) => {
+  const { x = 0, y = 0, width = 0, height = 0, payload } = props;
+  if (!payload) return null;
+
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const { open, close, high, low } = payload;
+  const toY = (value: number) => (high === low ? top : top + ((high - value) / (high - low)) * span);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop);
+  const center = x + width / 2;
+  const bodyWidth = Math.max(1, width * 0.7);
+  const color = payload.up ? UP_COLOR : DOWN_COLOR;
+
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={top} y2={top + span} strokeWidth={1} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} strokeWidth={0} />
+    </g>
+  );
+};
+
+interface CrosshairProps {
+  pointerY: number | null;
+  // Injected by <Customized>
+  offset?: { left: number; top: number; width: number; height: number };
+  yAxisMap?: Record<string, { scale: { invert?: (value: number) => number } }>;
+}
+
+// Horizontal half of the crosshair, with the price under the pointer on the axis
+const Crosshair = ({ pointerY, offset, yAxisMap }: CrosshairProps) => {
+  const invert = yAxisMap?.price?.scale.invert;
+  if (pointerY === null || !offset || !invert) return null;
+  if (pointerY < offset.top || pointerY > offset.top + offset.height) return null;
+
+  const right = offset.left + offset.width;
+  return (
+    <g pointerEvents="none">
+      <line
+        x1={offset.left}
+        x2={right}
+        y1={pointerY}
+        y2={pointerY}
+        stroke="hsl(var(--muted-foreground))"
+        strokeDasharray="3 3"
+      />
+      <rect x={right + 2} y={pointerY - 9} width={76} height={18} rx={4} fill="hsl(var(--muted))" />
+      <text x={right + 40} y={pointerY + 4} textAnchor="middle" className="fill-foreground text-[10px]">
+        {formatCurrency(invert(pointerY))}
+      </text>
+    </g>
+  );
+};
+
+const TooltipRow = ({ label, value, color }: { label: string; value: string; color?: string }) => (
+  <div className="flex items-center justify-between gap-4">
+    <span className="flex items-center gap-1.5 text-muted-foreground">
+      {color && <span className="h-2 w-2 shrink-0 rounded-[2px]" style={{ backgroundColor: color }} />}
+      {label}
+    </span>
+    <span className="font-mono font-medium tabular-nums text-foreground">{value}</span>
+  </div>
+);
+
+const CandleTooltip = ({
+  active,
+  payload,
+  intraday,
+  overlays,
+}: {
+  active?: boolean;
+  payload?: { payload: ChartPoint }[];
+  intraday: boolean;
+  overlays: ChartOverlays;
+}) => {
+  const point = payload?.[0]?.payload;
+  if (!active || !point) return null;
+
+  const change = point.open ? ((point.close - point.open) / point.open) * 100 : 0;
+  return (
+    <div className="grid min-w-[11rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <p className="font-medium text-foreground">{formatTooltipTime(point.time, intraday)}</p>
+      <TooltipRow label="Abertura" value={formatCurrency(point.open)} />
+      <TooltipRow label="Máxima" value={formatCurrency(point.high)} />
+      <TooltipRow label="Mínima" value={formatCurrency(point.low)} />
+      <TooltipRow label="Fechamento" value={formatCurrency(point.close)} />
+      <TooltipRow label="Variação" value={`${change > 0 ? "+" : ""}${formatNumber(change)}%`} />
+      <TooltipRow label="Volume" value={formatNumber(point.volume, 0)} />
+      {overlays.sma20 && point.sma20 !== null && (
+        <TooltipRow label="MM 20" value={formatCurrency(point.sma20)} color="var(--color-sma20)" />
+      )}
+      {overlays.sma50 && point.sma50 !== null && (
+        <TooltipRow label="MM 50" value={formatCurrency(point.sma50)} color="var(--color-sma50)" />
+      )}
+      {overlays.bollinger && point.bollinger && (
+        <TooltipRow
+          label="Bollinger"
+          value={`${formatCurrency(point.bollinger[0])} – ${formatCurrency(point.bollinger[1])}`}
+          color="var(--color-bollinger)"
+        />
+      )}
+    </div>
+  );
+};
+
+const PriceChart = ({ candles, visibleFrom, intraday, view, overlays }: PriceChartProps) => {
+  const [pointerY, setPointerY] = useState<number | null>(null);
+
+  const points = useMemo<ChartPoint[]>(() => {
+    const closes = candles.map((candle) => candle.close);
+    const sma20 = sma(closes, 20);
+    const sma50 = sma(closes, 50);
+    const bands = bollingerBands(closes, 20, 2);
+
+    return candles.slice(visibleFrom).map((candle, offset) => {
+      const i = visibleFrom + offset;
+      const lower = bands.lower[i];
+      const upper = bands.upper[i];
+      return {
+        ...candle,
+        range: [candle.low, candle.high],
+        up: candle.close >= candle.open,
+        sma20: sma20[i],
+        sma50: sma50[i],
+        bollinger: lower === null || upper === null ? null : [lower, upper],
+      };
+    });
+  }, [candles, visibleFrom]);
+
+  // Explicit domain: the volume bars and the band must not stretch the price axis to zero
+  const domain = useMemo<[number, number]>(() => {
+    const lows: number[] = [];
+    const highs: number[] = [];
+    points.forEach((point) => {
+      lows.push(view === "candles" ? point.low : point.close);
+      highs.push(view === "candles" ? point.high : point.close);
+      if (overlays.bollinger && point.bollinger) {
+        lows.push(point.bollinger[0]);
+        highs.push(point.bollinger[1]);
+      }
+      for (const average of [overlays.sma20 && point.sma20, overlays.sma50 && point.sma50]) {
+        if (typeof average === "number") {
+          lows.push(average);
+          highs.push(average);
+        }
+      }
+    });
+    const min = Math.min(...lows);
+    const max = Math.max(...highs);
+    const padding = (max - min) * 0.05 || max * 0.01;
+    return [min - padding, max + padding];
+  }, [points, view, overlays]);
+
+  const maxVolume = Math.max(...points.map((point) => point.volume));
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-[420px] w-full">
+      <ComposedChart
+        data={points}
+        margin={{ left: 0, right: 8, top: 8, bottom: 0 }}
+        onMouseMove={(state: { chartY?: number }) => setPointerY(state?.chartY ?? null)}
+        onMouseLeave={() => setPointerY(null)}
+      >
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="time"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+          tickFormatter={(time: string) => formatAxisTime(time, intraday)}
+        />
+        <YAxis
+          yAxisId="price"
+          orientation="right"
+          domain={domain}
+          tickLine={false}
+          axisLine={false}
+          width={80}
+          tickFormatter={(value: number) => formatCurrency(value)}
+        />
+        {/* Volume takes the bottom quarter of the plot. Its own x axis keeps its
+            bars under the candles instead of next to them. */}
+        <XAxis xAxisId="volume" dataKey="time" hide />
+        <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4]} />
+
+        <Bar xAxisId="volume" yAxisId="volume" dataKey="volume" isAnimationActive={false}>
+          {points.map((point) => (
+            <Cell key={point.time} fill={point.up ? UP_COLOR : DOWN_COLOR} fillOpacity={0.3} />
+          ))}
+        </Bar>
+
+        {overlays.bollinger && (
+          <Area
+            yAxisId="price"
+            dataKey="bollinger"
+            stroke="var(--color-bollinger)"
+            strokeOpacity={0.6}
+            fill="var(--color-bollinger)"
+            fillOpacity={0.08}
+            isAnimationActive={false}
+            connectNulls={false}
+          />
+        )}
+
+        {view === "candles" ? (
+          <Bar yAxisId="price" dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+        ) : (
+          <Line
+            yAxisId="price"
+            dataKey="close"
+            type="monotone"
+            stroke="var(--color-close)"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        )}
+
+        {overlays.sma20 && (
+          <Line
+            yAxisId="price"
+            dataKey="sma20"
+            stroke="var(--color-sma20)"
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        )}
+        {overlays.sma50 && (
+          <Line
+            yAxisId="price"
+            dataKey="sma50"
+            stroke="var(--color-sma50)"
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        )}
+
+        <ChartTooltip
+          cursor={{ stroke: "hsl(var(--muted-foreground))", strokeDasharray: "3 3" }}
+          content={<CandleTooltip intraday={intraday} overlays={overlays} />}
+        />
+        <Customized component={<Crosshair pointerY={pointerY} />} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
+
+export default PriceChart;
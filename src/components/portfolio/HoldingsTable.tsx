@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency, formatNumber, formatPercent, parseDecimal } from "@/lib/format";
+import type { HoldingValuation } from "@/lib/portfolio";
+
+export interface HoldingRow extends HoldingValuation {
+  id: string;
+}
+
+interface HoldingsTableProps {
+  holdings: HoldingRow[];
+  /** Null clears the price. */
+  onPriceChange: (holding: HoldingRow, price: number | null) => void;
+  onAddTransaction: (symbol: string) => void;
+}
+
+const pnlClass = (value: number | null) =>
+  value === null || value === 0 ? "" : value > 0 ? "text-success" : "text-destructive";
+
+// Saved on blur or Enter; anything that is not a price puts the old value back
+const PriceInput = ({ holding, onChange }: { holding: HoldingRow; onChange: (price: number | null) => void }) => {
+  const format = (price: number | null) => (price === null ? "" : formatNumber(price));
+  const [draft, setDraft] = useState(format(holding.currentPrice));
+
+  const commit = () => {
+    const price = parseDecimal(draft);
+    if (draft.trim() && (price === null || price < 0)) {
+      setDraft(format(holding.currentPrice));
+      return;
+    }
+    if (price !== holding.currentPrice) onChange(price);
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      inputMode="decimal"
+      placeholder="—"
+      className="h-8 w-24 ml-auto text-right tabular-nums bg-input border-border/50"
+      aria-label={`Preço atual de ${holding.symbol}`}
+    />
+  );
+};
+
+const HoldingsTable = ({ holdings, onPriceChange, onAddTransaction }: HoldingsTableProps) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Ativo</TableHead>
+        <TableHead className="text-right">Quantidade</TableHead>
+        <TableHead className="text-right">Preço médio</TableHead>
+        <TableHead className="text-right">Custo</TableHead>
+        <TableHead className="text-right">Preço atual</TableHead>
+        <TableHead className="text-right">Valor de mercado</TableHead>
+        <TableHead className="text-right">Não realizado</TableHead>
+        <TableHead className="text-right">Realizado</TableHead>
+        <TableHead className="w-10" />
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {holdings.map((holding) => (
+        <TableRow key={holding.id} className={holding.quantity === 0 ? "opacity-60" : undefined}>
+          <TableCell className="font-mono font-medium">
+            <Link to={`/ticker/${holding.symbol}`} className="hover:text-primary hover:underline">
+              {holding.symbol}
+            </Link>
+          </TableCell>
+          <TableCell className="text-right tabular-nums">{formatNumber(holding.quantity, 8)}</TableCell>
+          <TableCell className="text-right tabular-nums">
+            {holding.quantity > 0 ? formatCurrency(holding.averagePrice) : "—"}
+          </TableCell>
+          <TableCell className="text-right tabular-nums">{formatCurrency(holding.cost)}</TableCell>
+          <TableCell className="text-right">
+            <PriceInput
+              key={holding.currentPrice ?? "none"}
+              holding={holding}
+              onChange={(price) => onPriceChange(holding, price)}
+            />
+          </TableCell>
+          <TableCell className="text-right tabular-nums">
+            {holding.marketValue === null ? "—" : formatCurrency(holding.marketValue)}
+          </TableCell>
+          <TableCell className={`text-right tabular-nums ${pnlClass(holding.unrealizedPnl)}`}>
+            {holding.unrealizedPnl === null ? "—" : (
+              <>
+                {formatCurrency(holding.unrealizedPnl)}
+                {holding.unrealizedPercent !== null && (
+                  <span className="block text-xs">{formatPercent(holding.unrealizedPercent)}</span>
+                )}
+              </>
+            )}
+          </TableCell>
+          <TableCell className={`text-right tabular-nums ${pnlClass(holding.realizedPnl)}`}>
+            {formatCurrency(holding.realizedPnl)}
+          </TableCell>
+          <TableCell>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onAddTransaction(holding.symbol)}
+              className="h-8 w-8"
+              title="Nova operação"
+              aria-label={`Nova operação com ${holding.symbol}`}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+export default HoldingsTable;
@@ -0,0 +1,46 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/format";
+import type { PortfolioTotals } from "@/lib/portfolio";
+
+interface PortfolioSummaryProps {
+  totals: PortfolioTotals;
+}
+
+const pnlClass = (value: number) =>
+  value > 0 ? "text-success" : value < 0 ? "text-destructive" : "text-foreground";
+
+const PortfolioSummary = ({ totals }: PortfolioSummaryProps) => {
+  const items = [
+    { label: "Custo das posições", value: totals.cost, signed: false },
+    { label: "Valor de mercado", value: totals.marketValue, signed: false },
+    { label: "Resultado realizado", value: totals.realizedPnl, signed: true },
+    { label: "Resultado não realizado", value: totals.unrealizedPnl, signed: true },
+    { label: "Resultado total", value: totals.totalPnl, signed: true },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+        {items.map(({ label, value, signed }) => (
+          <Card key={label} className="trading-card border-border/50">
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              <p className={`text-lg font-semibold tabular-nums ${signed ? pnlClass(value) : "text-foreground"}`}>
+                {formatCurrency(value)}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      {totals.unpricedHoldings > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {totals.unpricedHoldings === 1
+            ? "1 ativo sem preço atual ficou fora do valor de mercado."
+            : `${totals.unpricedHoldings} ativos sem preço atual ficaram fora do valor de mercado.`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioSummary;
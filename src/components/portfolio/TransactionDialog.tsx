@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { formatCurrency, parseDecimal } from "@/lib/format";
+import type { TransactionType } from "@/lib/portfolio";
+import { findTicker } from "@/lib/tickers";
+
+export interface TransactionInput {
+  symbol: string;
+  type: TransactionType;
+  quantity: number;
+  price: number;
+  fees: number;
+  traded_at: string;
+  notes: string | null;
+}
+
+interface TransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Resolves with an error to show, or null once saved. */
+  onSubmit: (transaction: TransactionInput) => Promise<string | null>;
+  initialSymbol?: string;
+}
+
+const today = () => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+const TransactionDialog = ({ open, onOpenChange, onSubmit, initialSymbol = "" }: TransactionDialogProps) => {
+  const [symbol, setSymbol] = useState(initialSymbol);
+  const [type, setType] = useState<TransactionType>("buy");
+  const [tradedAt, setTradedAt] = useState(today);
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [fees, setFees] = useState("");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parsed = {
+    ticker: findTicker(symbol),
+    quantity: parseDecimal(quantity),
+    price: parseDecimal(price),
+    fees: fees.trim() ? parseDecimal(fees) : 0,
+  };
+  const total = parsed.quantity !== null && parsed.price !== null && parsed.fees !== null
+    ? parsed.quantity * parsed.price + (type === "buy" ? parsed.fees : -parsed.fees)
+    : null;
+
+  const submit = async () => {
+    if (!parsed.ticker) return setError("Informe um código de ativo válido, como PETR4 ou BTC");
+    if (parsed.quantity === null || parsed.quantity <= 0) return setError("A quantidade deve ser maior que zero");
+    if (parsed.price === null || parsed.price < 0) return setError("Informe um preço válido");
+    if (parsed.fees === null || parsed.fees < 0) return setError("Informe taxas válidas ou deixe em branco");
+    if (!tradedAt || tradedAt > today()) return setError("A data não pode estar no futuro");
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      const message = await onSubmit({
+        symbol: parsed.ticker.symbol,
+        type,
+        quantity: parsed.quantity,
+        price: parsed.price,
+        fees: parsed.fees,
+        traded_at: tradedAt,
+        notes: notes.trim() || null,
+      });
+      if (message) {
+        setError(message);
+      } else {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Nova operação</DialogTitle>
+          <DialogDescription>Valores em reais. As taxas entram no preço médio das compras.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ToggleGroup
+            type="single"
+            value={type}
+            onValueChange={(value) => value && setType(value as TransactionType)}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="buy">Compra</ToggleGroupItem>
+            <ToggleGroupItem value="sell">Venda</ToggleGroupItem>
+          </ToggleGroup>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="transaction-symbol">Ativo</Label>
+              <Input
+                id="transaction-symbol"
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                placeholder="PETR4"
+                className="font-mono"
+                autoFocus={!initialSymbol}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="transaction-date">Data</Label>
+              <Input
+                id="transaction-date"
+                type="date"
+                value={tradedAt}
+                max={today()}
+                onChange={(e) => setTradedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="transaction-quantity">Quantidade</Label>
+              <Input
+                id="transaction-quantity"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                inputMode="decimal"
+                placeholder="100"
+                autoFocus={Boolean(initialSymbol)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="transaction-price">Preço unitário</Label>
+              <Input
+                id="transaction-price"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                inputMode="decimal"
+                placeholder="38,42"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="transaction-fees">Taxas</Label>
+              <Input
+                id="transaction-fees"
+                value={fees}
+                onChange={(e) => setFees(e.target.value)}
+                inputMode="decimal"
+                placeholder="0,00"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="transaction-notes">Observação</Label>
+              <Input
+                id="transaction-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Opcional"
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {type === "buy" ? "Total pago" : "Total recebido"}:{" "}
+            <span className="font-semibold text-foreground tabular-nums">
+              {total === null ? "—" : formatCurrency(total)}
+            </span>
+          </p>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={submit}
+            disabled={isSaving}
+            className="trading-gradient text-primary-foreground hover:opacity-90"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransactionDialog;
@@ -0,0 +1,84 @@
+import { Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency, formatNumber } from "@/lib/format";
+import type { Transaction } from "@/lib/portfolio";
+
+export interface TransactionRow extends Transaction {
+  symbol: string;
+  notes: string | null;
+}
+
+interface TransactionsTableProps {
+  transactions: TransactionRow[];
+  onDelete: (transaction: TransactionRow) => void;
+  disabled?: boolean;
+}
+
+// "2026-10-19" as a calendar date, without a timezone shift
+const formatTradeDate = (date: string) => {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+};
+
+const TransactionsTable = ({ transactions, onDelete, disabled }: TransactionsTableProps) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Data</TableHead>
+        <TableHead>Ativo</TableHead>
+        <TableHead>Operação</TableHead>
+        <TableHead className="text-right">Quantidade</TableHead>
+        <TableHead className="text-right">Preço</TableHead>
+        <TableHead className="text-right">Taxas</TableHead>
+        <TableHead className="text-right">Total</TableHead>
+        <TableHead className="w-10" />
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {transactions.map((transaction) => {
+        const gross = transaction.quantity * transaction.price;
+        // What left or entered the account
+        const total = transaction.type === "buy" ? gross + transaction.fees : gross - transaction.fees;
+        return (
+          <TableRow key={transaction.id} title={transaction.notes ?? undefined}>
+            <TableCell className="whitespace-nowrap">{formatTradeDate(transaction.traded_at)}</TableCell>
+            <TableCell className="font-mono font-medium">{transaction.symbol}</TableCell>
+            <TableCell>
+              <Badge variant={transaction.type === "buy" ? "secondary" : "outline"} className="text-xs">
+                {transaction.type === "buy" ? "Compra" : "Venda"}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{formatNumber(transaction.quantity, 8)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatCurrency(transaction.price)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatCurrency(transaction.fees)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatCurrency(total)}</TableCell>
+            <TableCell>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onDelete(transaction)}
+                disabled={disabled}
+                className="h-8 w-8 text-destructive hover:text-destructive"
+                title="Excluir operação"
+                aria-label="Excluir operação"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        );
+      })}
+    </TableBody>
+  </Table>
+);
+
+export default TransactionsTable;
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Plus } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  MARKET_LABELS,
+  type Market,
+  TICKER_CATALOG,
+  findTicker,
+  normalizeSymbol,
+} from "@/lib/tickers";
+
+interface TickerSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (symbol: string) => void;
+  /** Symbols already chosen; they are left out of the results. */
+  exclude?: string[];
+}
+
+const MARKETS: Market[] = ["b3", "crypto"];
+
+const TickerSearchDialog = ({ open, onOpenChange, onSelect, exclude = [] }: TickerSearchDialogProps) => {
+  const [query, setQuery] = useState("");
+  const [market, setMarket] = useState<Market | "all">("all");
+
+  const changeOpen = (next: boolean) => {
+    if (!next) setQuery("");
+    onOpenChange(next);
+  };
+
+  const select = (symbol: string) => {
+    onSelect(symbol);
+    changeOpen(false);
+  };
+
+  const available = TICKER_CATALOG.filter(ticker =>
+    !exclude.includes(ticker.symbol) && (market === "all" || ticker.market === market)
+  );
+  // B3 tickers outside the catalog can still be added by typing them in full
+  const typed = findTicker(query);
+  const canAddTyped = typed !== null
+    && !exclude.includes(typed.symbol)
+    && (market === "all" || typed.market === market)
+    && !available.some(ticker => ticker.symbol === typed.symbol);
+
+  return (
+    <CommandDialog open={open} onOpenChange={changeOpen}>
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Buscar ativo por código ou nome..."
+      />
+      <div className="flex items-center justify-end border-b border-border/50 px-3 py-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={market}
+          onValueChange={(value) => value && setMarket(value as Market | "all")}
+        >
+          <ToggleGroupItem value="all" className="text-xs">Todos</ToggleGroupItem>
+          {MARKETS.map((value) => (
+            <ToggleGroupItem key={value} value={value} className="text-xs">
+              {MARKET_LABELS[value]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <CommandList>
+        <CommandEmpty>Nenhum ativo encontrado.</CommandEmpty>
+        {canAddTyped && (
+          <CommandGroup heading="Código digitado">
+            <CommandItem value={normalizeSymbol(query)} onSelect={() => select(typed.symbol)}>
+              <Plus className="mr-2" />
+              Adicionar <span className="ml-1 font-mono">{typed.symbol}</span>
+            </CommandItem>
+          </CommandGroup>
+        )}
+        {MARKETS.map((value) => {
+          const tickers = available.filter(ticker => ticker.market === value);
+          if (tickers.length === 0) return null;
+          return (
+            <CommandGroup key={value} heading={MARKET_LABELS[value]}>
+              {tickers.map((ticker) => (
+                <CommandItem
+                  key={ticker.symbol}
+                  value={`${ticker.symbol} ${ticker.name}`}
+                  onSelect={() => select(ticker.symbol)}
+                >
+                  <span className="font-mono w-20">{ticker.symbol}</span>
+                  <span className="text-muted-foreground truncate">{ticker.name}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default TickerSearchDialog;
@@ -0,0 +1,111 @@
+import { Link } from "react-router-dom";
+import { ArrowDown, ArrowUp, MessageSquare, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MARKET_LABELS, findTicker } from "@/lib/tickers";
+
+interface WatchlistTableProps {
+  symbols: string[];
+  /** Moves the ticker at `index` one row up (-1) or down (+1). */
+  onMove: (index: number, offset: -1 | 1) => void;
+  onRemove: (symbol: string) => void;
+  onChat: (symbol: string) => void;
+  disabled?: boolean;
+}
+
+const WatchlistTable = ({ symbols, onMove, onRemove, onChat, disabled }: WatchlistTableProps) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead className="w-12">#</TableHead>
+        <TableHead>Ativo</TableHead>
+        <TableHead>Nome</TableHead>
+        <TableHead>Mercado</TableHead>
+        <TableHead className="text-right">Ações</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {symbols.map((symbol, index) => {
+        const ticker = findTicker(symbol);
+        return (
+          <TableRow key={symbol}>
+            <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+            <TableCell className="font-mono font-medium">
+              <Link to={`/ticker/${symbol}`} className="hover:text-primary hover:underline">
+                {symbol}
+              </Link>
+            </TableCell>
+            <TableCell className="text-muted-foreground">
+              {ticker && ticker.name !== symbol ? ticker.name : "—"}
+            </TableCell>
+            <TableCell>
+              {ticker && (
+                <Badge variant="outline" className="text-xs">
+                  {MARKET_LABELS[ticker.market]}
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell>
+              <div className="flex items-center justify-end space-x-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onMove(index, -1)}
+                  disabled={disabled || index === 0}
+                  className="h-8 w-8"
+                  title="Mover para cima"
+                  aria-label={`Mover ${symbol} para cima`}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onMove(index, 1)}
+                  disabled={disabled || index === symbols.length - 1}
+                  className="h-8 w-8"
+                  title="Mover para baixo"
+                  aria-label={`Mover ${symbol} para baixo`}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChat(symbol)}
+                  disabled={disabled}
+                  className="h-8 w-8 text-primary hover:text-primary"
+                  title="Conversar sobre o ativo"
+                  aria-label={`Conversar sobre ${symbol}`}
+                >
+                  <MessageSquare className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onRemove(symbol)}
+                  disabled={disabled}
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  title="Remover da lista"
+                  aria-label={`Remover ${symbol}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </TableCell>
+          </TableRow>
+        );
+      })}
+    </TableBody>
+  </Table>
+);
+
+export default WatchlistTable;
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { FALLBACK_AGENT, fetchAgents } from "@/lib/agents"
+
+export function useAgents() {
+  const { data, isLoading } = useQuery({
+    queryKey: ["agents"],
+    queryFn: fetchAgents,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  return { agents: data ?? [FALLBACK_AGENT], isLoading }
+}
@@ -0,0 +1,52 @@
+import { useState } from "react"
+
+import { useToast } from "@/components/ui/use-toast"
+import {
+  type ExportFormat,
+  downloadFile,
+  exportFileName,
+  fetchConversationArchive,
+  toJson,
+  toMarkdown,
+} from "@/lib/conversation-export"
+import { printArchive } from "@/lib/print-conversations"
+import type { VersionSelection } from "@/lib/thread"
+
+export function useConversationExport() {
+  const [isExporting, setIsExporting] = useState(false)
+  const { toast } = useToast()
+
+  /** `selection` picks the thread shown in Markdown and print, e.g. the one on screen. */
+  const exportConversations = async (
+    conversationIds: string[],
+    format: ExportFormat,
+    selection?: VersionSelection
+  ) => {
+    if (conversationIds.length === 0) return
+
+    setIsExporting(true)
+    try {
+      const archive = await fetchConversationArchive(conversationIds)
+      const fileName = exportFileName(archive)
+
+      if (format === "json") {
+        downloadFile(`${fileName}.json`, toJson(archive), "application/json")
+      } else if (format === "markdown") {
+        downloadFile(`${fileName}.md`, toMarkdown(archive, selection), "text/markdown")
+      } else {
+        printArchive(archive, selection)
+      }
+    } catch (error) {
+      console.error("Erro ao exportar conversas:", error)
+      toast({
+        title: "Erro",
+        description: "Não foi possível exportar as conversas",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return { exportConversations, isExporting }
+}
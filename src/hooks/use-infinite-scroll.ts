@@ -0,0 +1,27 @@
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Calls `onLoadMore` whenever the element given to the returned callback ref
+ * scrolls into view while `enabled`. Re-enabling checks again, so a page that
+ * does not fill the screen keeps loading until it does or nothing is left.
+ */
+export const useInfiniteScroll = <T extends Element>(onLoadMore: () => void, enabled: boolean) => {
+  const [element, setElement] = useState<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    if (!enabled || !element) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMoreRef.current();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element, enabled]);
+
+  return setElement;
+};
@@ -0,0 +1,114 @@
+import { queryOptions, useQuery } from "@tanstack/react-query"
+
+import {
+  DEFAULT_INTRADAY_INTERVAL,
+  MarketDataError,
+  type IntradayInterval,
+  type MarketDataProvider,
+} from "@/lib/market-data"
+import { createFixtureProvider } from "@/lib/market-data-fixtures"
+import { createHttpProvider } from "@/lib/market-data-http"
+import { normalizeSymbol } from "@/lib/tickers"
+
+// Market data goes through the app's QueryClient (App.tsx): one cache entry
+// per provider, request and parameters, so every screen showing PETR4
+// shares the same request and the same data.
+
+const selectProvider = (): MarketDataProvider => {
+  const { VITE_MARKET_DATA_PROVIDER, VITE_MARKET_DATA_URL } = import.meta.env
+  const useHttp = VITE_MARKET_DATA_PROVIDER
+    ? VITE_MARKET_DATA_PROVIDER === "http"
+    : Boolean(VITE_MARKET_DATA_URL)
+
+  if (useHttp && VITE_MARKET_DATA_URL) {
+    return createHttpProvider({
+      baseUrl: VITE_MARKET_DATA_URL,
+      apiKey: import.meta.env.VITE_MARKET_DATA_API_KEY,
+      apiKeyHeader: import.meta.env.VITE_MARKET_DATA_API_KEY_HEADER,
+    })
+  }
+  if (useHttp) {
+    console.error("VITE_MARKET_DATA_URL não configurada; usando dados de exemplo")
+  }
+  return createFixtureProvider()
+}
+
+export const marketDataProvider = selectProvider()
+
+const STALE_TIME = {
+  quote: 15 * 1000,
+  intraday: 60 * 1000,
+  daily: 60 * 60 * 1000,
+  search: 5 * 60 * 1000,
+}
+
+// Unknown symbols and malformed data will not fix themselves on retry
+const retry = (failureCount: number, error: Error) =>
+  !(error instanceof MarketDataError && error.code !== "unavailable") && failureCount < 2
+
+const baseKey = ["market-data", marketDataProvider.id] as const
+
+/** Query options, for `queryClient.fetchQuery` / `prefetchQuery` outside components. */
+export const marketDataQueries = {
+  quote: (symbol: string) =>
+    queryOptions({
+      queryKey: [...baseKey, "quote", normalizeSymbol(symbol)],
+      queryFn: ({ signal }) => marketDataProvider.getQuote(symbol, { signal }),
+      staleTime: STALE_TIME.quote,
+      retry,
+    }),
+
+  intraday: (symbol: string, interval: IntradayInterval = DEFAULT_INTRADAY_INTERVAL) =>
+    queryOptions({
+      queryKey: [...baseKey, "intraday", normalizeSymbol(symbol), interval],
+      queryFn: ({ signal }) => marketDataProvider.getIntradayHistory(symbol, { interval, signal }),
+      staleTime: STALE_TIME.intraday,
+      retry,
+    }),
+
+  daily: (symbol: string, from?: string, to?: string) =>
+    queryOptions({
+      queryKey: [...baseKey, "daily", normalizeSymbol(symbol), from ?? null, to ?? null],
+      queryFn: ({ signal }) => marketDataProvider.getDailyHistory(symbol, { from, to, signal }),
+      staleTime: STALE_TIME.daily,
+      retry,
+    }),
+
+  search: (query: string) =>
+    queryOptions({
+      queryKey: [...baseKey, "search", query.trim().toUpperCase()],
+      queryFn: ({ signal }) => marketDataProvider.searchSymbols(query, { signal }),
+      staleTime: STALE_TIME.search,
+      retry,
+    }),
+}
+
+/** Refreshes on its own while the quote is on screen. */
+export function useQuote(symbol: string | null | undefined) {
+  return useQuery({
+    ...marketDataQueries.quote(symbol ?? ""),
+    enabled: Boolean(symbol),
+    refetchInterval: STALE_TIME.quote * 2,
+  })
+}
+
+export function useIntradayHistory(symbol: string | null | undefined, interval?: IntradayInterval) {
+  return useQuery({
+    ...marketDataQueries.intraday(symbol ?? "", interval),
+    enabled: Boolean(symbol),
+  })
+}
+
+export function useDailyHistory(symbol: string | null | undefined, from?: string, to?: string) {
+  return useQuery({
+    ...marketDataQueries.daily(symbol ?? "", from, to),
+    enabled: Boolean(symbol),
+  })
+}
+
+export function useSymbolSearch(query: string) {
+  return useQuery({
+    ...marketDataQueries.search(query),
+    enabled: query.trim().length > 0,
+  })
+}
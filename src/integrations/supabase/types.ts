@@ -29,51 +29,261 @@ export type Database = {
         }
         Relationships: []
       }
+      agent_jobs: {
+        Row: {
+          agent_id: string | null
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          external_id: string
+          id: string
+          message_id: string
+          status: string
+          status_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          agent_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          external_id: string
+          id?: string
+          message_id: string
+          status?: string
+          status_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          external_id?: string
+          id?: string
+          message_id?: string
+          status?: string
+          status_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_jobs_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_jobs_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agents: {
+        Row: {
+          auth_header_name: string | null
+          auth_header_value: string | null
+          created_at: string
+          description: string | null
+          endpoint: string
+          icon: string
+          id: string
+          is_default: boolean
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          auth_header_name?: string | null
+          auth_header_value?: string | null
+          created_at?: string
+          description?: string | null
+          endpoint: string
+          icon?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          auth_header_name?: string | null
+          auth_header_value?: string | null
+          created_at?: string
+          description?: string | null
+          endpoint?: string
+          icon?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      conversation_shares: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          revoked_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_shares_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
+          agent_id: string | null
+          archived_at: string | null
           created_at: string
           id: string
+          imported_from: string | null
+          pinned_at: string | null
           title: string | null
+          title_search: unknown | null
+          title_source: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          agent_id?: string | null
+          archived_at?: string | null
           created_at?: string
           id?: string
+          imported_from?: string | null
+          pinned_at?: string | null
           title?: string | null
+          title_search?: unknown | null
+          title_source?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          agent_id?: string | null
+          archived_at?: string | null
           created_at?: string
           id?: string
+          imported_from?: string | null
+          pinned_at?: string | null
           title?: string | null
+          title_search?: unknown | null
+          title_source?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "conversations_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holdings: {
+        Row: {
+          created_at: string
+          current_price: number | null
+          id: string
+          portfolio_id: string
+          price_updated_at: string | null
+          symbol: string
+        }
+        Insert: {
+          created_at?: string
+          current_price?: number | null
+          id?: string
+          portfolio_id: string
+          price_updated_at?: string | null
+          symbol: string
+        }
+        Update: {
+          created_at?: string
+          current_price?: number | null
+          id?: string
+          portfolio_id?: string
+          price_updated_at?: string | null
+          symbol?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holdings_portfolio_id_fkey"
+            columns: ["portfolio_id"]
+            isOneToOne: false
+            referencedRelation: "portfolios"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       messages: {
         Row: {
+          blocks: Json | null
           content: string
+          content_search: unknown | null
           conversation_id: string
           created_at: string
           id: string
+          parent_id: string | null
           role: string
+          status: string | null
+          version: number
         }
         Insert: {
+          blocks?: Json | null
           content: string
+          content_search?: unknown | null
           conversation_id: string
           created_at?: string
           id?: string
+          parent_id?: string | null
           role: string
+          status?: string | null
+          version?: number
         }
         Update: {
+          blocks?: Json | null
           content?: string
+          content_search?: unknown | null
           conversation_id?: string
           created_at?: string
           id?: string
+          parent_id?: string | null
           role?: string
+          status?: string | null
+          version?: number
         }
         Relationships: [
           {
@@ -83,6 +293,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notifications: {
@@ -115,6 +332,30 @@ export type Database = {
         }
         Relationships: []
       }
+      portfolios: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -142,12 +383,132 @@ export type Database = {
         }
         Relationships: []
       }
+      transactions: {
+        Row: {
+          created_at: string
+          fees: number
+          holding_id: string
+          id: string
+          notes: string | null
+          price: number
+          quantity: number
+          traded_at: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          fees?: number
+          holding_id: string
+          id?: string
+          notes?: string | null
+          price: number
+          quantity: number
+          traded_at?: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          fees?: number
+          holding_id?: string
+          id?: string
+          notes?: string | null
+          price?: number
+          quantity?: number
+          traded_at?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_holding_id_fkey"
+            columns: ["holding_id"]
+            isOneToOne: false
+            referencedRelation: "holdings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      watchlists: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          symbols: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          symbols?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          symbols?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      conversation_summaries: {
+        Row: {
+          agent_icon: string | null
+          agent_id: string | null
+          agent_name: string | null
+          archived_at: string | null
+          created_at: string | null
+          id: string | null
+          last_message_at: string | null
+          last_message_content: string | null
+          last_message_role: string | null
+          message_count: number | null
+          pinned_at: string | null
+          tickers: string[] | null
+          title: string | null
+          title_source: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      get_shared_conversation: {
+        Args: { share_token: string }
+        Returns: Json
+      }
+      search_conversations: {
+        Args: {
+          from_date?: string
+          max_results?: number
+          message_role?: string
+          search_query: string
+          to_date?: string
+        }
+        Returns: {
+          conversation_id: string
+          conversation_title: string
+          created_at: string
+          message_id: string
+          rank: number
+          role: string
+          snippet: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,125 @@
+import { FunctionsFetchError, FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { readAgentResponse, type AgentStreamListener } from "@/lib/agent-stream";
+import type { AgentContext } from "@/lib/agent-context";
+import type { Message } from "@/lib/messages";
+
+// All agent traffic goes through the `agent-proxy` Edge Function, which
+// authenticates the user, signs the request to the agent and saves both
+// messages (see supabase/functions/agent-proxy).
+
+export interface AgentRequest {
+  conversation_id: string;
+  /** The proxy sets the stored created_at and version itself. */
+  message: Pick<Message, "id" | "content"> & { parent_id: string | null };
+  /** Ask again for an answer to an already saved user message. */
+  regenerate?: boolean;
+  context: AgentContext;
+}
+
+export interface AgentReply {
+  /** Saved user message; null when regenerating. */
+  userMessage: Tables<"messages"> | null;
+  assistantMessage: Tables<"messages">;
+}
+
+/** Thrown when the proxy or the agent answered with an error. */
+export class AgentResponseError extends Error {
+  constructor(public status: number | null, message: string) {
+    super(message);
+    this.name = "AgentResponseError";
+  }
+}
+
+export interface AgentReplyHandlers {
+  /** Called once the agent accepted the request and started replying. */
+  onAccepted?: () => void;
+  onUpdate: AgentStreamListener;
+  /** Lets the caller cancel the request, e.g. from a Stop button. */
+  signal?: AbortSignal;
+}
+
+const toResponseError = async (error: FunctionsHttpError) => {
+  const response: Response = error.context;
+  const body = await response.json().catch(() => null);
+  return new AgentResponseError(
+    response.status,
+    body?.error || `O agente retornou status ${response.status}`
+  );
+};
+
+/**
+ * Sends a message through the proxy and resolves with the saved rows,
+ * reporting partial content through `onUpdate` while the reply streams.
+ */
+export const requestAgentReply = async (
+  request: AgentRequest,
+  { onAccepted, onUpdate, signal }: AgentReplyHandlers
+): Promise<AgentReply> => {
+  signal?.throwIfAborted();
+
+  const invocation = supabase.functions.invoke("agent-proxy", { body: request });
+
+  // invoke() cannot be aborted: a Stop before the stream opens closes it as soon as it does
+  const aborted = new Promise<never>((_, reject) => {
+    signal?.addEventListener("abort", () => {
+      reject(signal.reason);
+      invocation.then(({ data }) => {
+        if (data instanceof Response) data.body?.cancel().catch(() => undefined);
+      });
+    }, { once: true });
+  });
+
+  const { data, error } = await Promise.race([invocation, aborted]);
+
+  if (error instanceof FunctionsHttpError) throw await toResponseError(error);
+  if (error) throw error;
+  if (!(data instanceof Response)) {
+    throw new AgentResponseError(null, "Resposta inesperada do proxy do agente");
+  }
+
+  onAccepted?.();
+
+  let reply: AgentReply | null = null;
+  let streamError: string | null = null;
+
+  await readAgentResponse(data, onUpdate, {
+    signal,
+    onEvent: (event, payload) => {
+      if (event === "saved") {
+        const saved = JSON.parse(payload);
+        reply = { userMessage: saved.user_message, assistantMessage: saved.assistant_message };
+      } else if (event === "error") {
+        streamError = JSON.parse(payload).error;
+      }
+    },
+  });
+
+  if (streamError) throw new AgentResponseError(null, streamError);
+  if (!reply) throw new AgentResponseError(null, "A resposta do agente foi interrompida");
+  return reply;
+};
+
+/** How often the chat checks on replies an agent is still processing. */
+export const AGENT_JOB_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Current state of a reply the agent is processing asynchronously. The
+ * `agent-jobs` function also asks the agent for news when it can.
+ */
+export const pollAgentJob = async (messageId: string): Promise<Tables<"messages"> | null> => {
+  const { data, error } = await supabase.functions.invoke("agent-jobs", {
+    body: { message_id: messageId },
+  });
+
+  if (error instanceof FunctionsHttpError) throw await toResponseError(error);
+  if (error) throw error;
+  return data?.message ?? null;
+};
+
+/** Network failures (offline, DNS, CORS) are worth queueing; HTTP errors are not. */
+export const isNetworkError = (error: unknown) =>
+  error instanceof FunctionsFetchError ||
+  error instanceof TypeError ||
+  (typeof navigator !== "undefined" && !navigator.onLine);
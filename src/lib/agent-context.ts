@@ -0,0 +1,115 @@
+// Builds the conversation history attached to every agent request, cut to a
+// configurable budget so all agents see the same, bounded context.
+
+export interface ContextMessage {
+  role: "user" | "assistant";
+  content: string;
+  created_at: string;
+}
+
+export interface ContextBudget {
+  /** Most recent messages (user and assistant turns) to send verbatim. */
+  maxTurns: number;
+  /** Character budget shared by the verbatim history and the summary. */
+  maxChars: number;
+}
+
+export interface AgentContext {
+  history: ContextMessage[];
+  /** Short digest of the turns that did not fit, or null when nothing was dropped. */
+  summary: string | null;
+  dropped: number;
+  approx_tokens: number;
+}
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+  maxTurns: readPositiveInt(import.meta.env.VITE_AGENT_CONTEXT_MAX_TURNS, 12),
+  maxChars: readPositiveInt(import.meta.env.VITE_AGENT_CONTEXT_MAX_CHARS, 12000),
+};
+
+// Part of the budget reserved for the summary of older turns
+const SUMMARY_SHARE = 0.15;
+const SUMMARY_ITEM_CHARS = 120;
+const TRUNCATION_MARK = "…";
+
+/** Rough token count (≈4 characters per token), good enough for budgeting. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const truncate = (text: string, maxChars: number) => {
+  if (text.length <= maxChars) return text;
+  return text.slice(0, Math.max(0, maxChars - TRUNCATION_MARK.length)).trimEnd() + TRUNCATION_MARK;
+};
+
+const summarize = (dropped: ContextMessage[], maxChars: number) => {
+  const questions = dropped
+    .filter((message) => message.role === "user")
+    .map((message) => `- ${truncate(message.content.replace(/\s+/g, " ").trim(), SUMMARY_ITEM_CHARS)}`);
+
+  const header = `${dropped.length} mensagens anteriores omitidas. Perguntas do usuário:`;
+  const lines: string[] = [];
+  let length = header.length;
+
+  // Keep the most recent questions when the summary itself runs out of room
+  for (let i = questions.length - 1; i >= 0; i--) {
+    if (length + questions[i].length + 1 > maxChars) break;
+    lines.unshift(questions[i]);
+    length += questions[i].length + 1;
+  }
+
+  return lines.length > 0 ? [header, ...lines].join("\n") : header;
+};
+
+/**
+ * Keeps the newest messages that fit both `maxTurns` and `maxChars`. The
+ * most recent message is always sent, truncated if needed; everything older
+ * that did not fit is condensed into `summary`.
+ */
+export const buildAgentContext = (
+  messages: ContextMessage[],
+  budget: ContextBudget = DEFAULT_CONTEXT_BUDGET
+): AgentContext => {
+  const historyBudget = Math.floor(budget.maxChars * (1 - SUMMARY_SHARE));
+  const history: ContextMessage[] = [];
+  let used = 0;
+  let index = messages.length - 1;
+
+  for (; index >= 0 && history.length < budget.maxTurns; index--) {
+    const message = messages[index];
+    const remaining = historyBudget - used;
+
+    if (message.content.length > remaining) {
+      if (history.length === 0) {
+        history.unshift({
+          role: message.role,
+          content: truncate(message.content, remaining),
+          created_at: message.created_at,
+        });
+        used = historyBudget;
+        index--;
+      }
+      break;
+    }
+
+    history.unshift({
+      role: message.role,
+      content: message.content,
+      created_at: message.created_at,
+    });
+    used += message.content.length;
+  }
+
+  const dropped = messages.slice(0, index + 1);
+  const summary = dropped.length > 0 ? summarize(dropped, budget.maxChars - used) : null;
+
+  return {
+    history,
+    summary,
+    dropped: dropped.length,
+    approx_tokens: estimateTokens(history.map((message) => message.content).join("") + (summary ?? "")),
+  };
+};
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+import { blocksToPlainText as renderBlocksAsText } from "../../supabase/functions/_shared/agent-blocks.ts";
+
+// Structured response format an agent may return instead of plain text:
+//
+//   { "version": 1, "blocks": [{ "type": "text", "text": "..." }, ...] }
+//
+// Blocks render in order. Unknown block types (from newer agents) are kept
+// in the stored JSON and shown through their plain-text fallback.
+
+export const AGENT_PROTOCOL_VERSION = 1;
+
+const cellSchema = z.union([z.string(), z.number(), z.null()]);
+
+export const textBlockSchema = z.object({
+  type: z.literal("text"),
+  text: z.string(),
+});
+
+export const tableBlockSchema = z.object({
+  type: z.literal("table"),
+  title: z.string().optional(),
+  columns: z.array(z.string()),
+  rows: z.array(z.array(cellSchema)),
+});
+
+export const priceChartBlockSchema = z.object({
+  type: z.literal("price_chart"),
+  symbol: z.string(),
+  currency: z.string().default("BRL"),
+  points: z
+    .array(z.object({ time: z.string(), price: z.number() }))
+    .min(1),
+});
+
+export const tickerCardBlockSchema = z.object({
+  type: z.literal("ticker_card"),
+  symbol: z.string(),
+  name: z.string().optional(),
+  price: z.number(),
+  change: z.number().optional(),
+  change_percent: z.number().optional(),
+  currency: z.string().default("BRL"),
+});
+
+export const metricsBlockSchema = z.object({
+  type: z.literal("metrics"),
+  title: z.string().optional(),
+  items: z.array(
+    z.object({
+      label: z.string(),
+      value: z.union([z.string(), z.number()]),
+      hint: z.string().optional(),
+    })
+  ),
+});
+
+export const actionsBlockSchema = z.object({
+  type: z.literal("actions"),
+  actions: z.array(
+    z.object({
+      label: z.string(),
+      /** Sent as the user's next message when the button is pressed. */
+      prompt: z.string(),
+    })
+  ),
+});
+
+export const messageBlockSchema = z.discriminatedUnion("type", [
+  textBlockSchema,
+  tableBlockSchema,
+  priceChartBlockSchema,
+  tickerCardBlockSchema,
+  metricsBlockSchema,
+  actionsBlockSchema,
+]);
+
+export const agentResponseSchema = z.object({
+  version: z.literal(AGENT_PROTOCOL_VERSION),
+  blocks: z.array(z.unknown()).min(1),
+});
+
+// Spelled out rather than inferred: the app compiles without strictNullChecks,
+// under which zod infers every property as optional.
+export interface TextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface TableBlock {
+  type: "table";
+  title?: string;
+  columns: string[];
+  rows: (string | number | null)[][];
+}
+
+export interface PriceChartBlock {
+  type: "price_chart";
+  symbol: string;
+  currency: string;
+  points: { time: string; price: number }[];
+}
+
+export interface TickerCardBlock {
+  type: "ticker_card";
+  symbol: string;
+  name?: string;
+  price: number;
+  change?: number;
+  change_percent?: number;
+  currency: string;
+}
+
+export interface MetricsBlock {
+  type: "metrics";
+  title?: string;
+  items: { label: string; value: string | number; hint?: string }[];
+}
+
+export interface ActionsBlock {
+  type: "actions";
+  actions: { label: string; prompt: string }[];
+}
+
+export type KnownMessageBlock =
+  | TextBlock
+  | TableBlock
+  | PriceChartBlock
+  | TickerCardBlock
+  | MetricsBlock
+  | ActionsBlock;
+
+export interface UnknownMessageBlock {
+  type: "unknown";
+  raw: unknown;
+}
+
+export type MessageBlock = KnownMessageBlock | UnknownMessageBlock;
+
+// A type alias (not an interface) so it stays assignable to `Json`
+export type AgentResponse = {
+  version: typeof AGENT_PROTOCOL_VERSION;
+  blocks: Json[];
+};
+
+const parseBlock = (raw: unknown): MessageBlock => {
+  const result = messageBlockSchema.safeParse(raw);
+  return result.success ? (result.data as KnownMessageBlock) : { type: "unknown", raw };
+};
+
+/** Parses blocks stored on a message row; null for plain-text messages. */
+export const parseBlocks = (stored: Json | null | undefined): MessageBlock[] | null => {
+  const result = agentResponseSchema.safeParse(stored);
+  return result.success ? result.data.blocks.map(parseBlock) : null;
+};
+
+/** Plain-text rendition of blocks, as the proxy stores it in the message content. */
+export const blocksToPlainText = (blocks: MessageBlock[]) =>
+  renderBlocksAsText(blocks.map((block) => (block.type === "unknown" ? block.raw : block)));
@@ -0,0 +1,3 @@
+// The reader lives with the Edge Functions, which read agent responses the
+// same way (see supabase/functions/_shared/agent-stream.ts).
+export * from "../../supabase/functions/_shared/agent-stream.ts";
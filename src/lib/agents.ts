@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Endpoints and credentials stay server-side (agent-proxy); clients only
+// get what the picker shows.
+const AGENT_COLUMNS = "id, slug, name, description, icon, is_default, created_at, updated_at";
+
+export type Agent = Omit<Tables<"agents">, "endpoint" | "auth_header_name" | "auth_header_value">;
+
+/**
+ * Shown when the registry cannot be read. Conversations using it have no
+ * `agent_id`, which the proxy resolves to the default agent.
+ */
+export const FALLBACK_AGENT: Agent = {
+  id: "fallback-trader",
+  slug: "trader",
+  name: "Agente Trader",
+  description: "Análises de mercado, investimentos e estratégias financeiras",
+  icon: "trending-up",
+  is_default: true,
+  created_at: new Date(0).toISOString(),
+  updated_at: new Date(0).toISOString(),
+};
+
+export const isFallbackAgent = (agent: Agent) => agent.id === FALLBACK_AGENT.id;
+
+export const fetchAgents = async (): Promise<Agent[]> => {
+  const { data, error } = await supabase
+    .from("agents")
+    .select(AGENT_COLUMNS)
+    .order("is_default", { ascending: false })
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Erro ao carregar agentes:", error);
+    return [FALLBACK_AGENT];
+  }
+
+  return data && data.length > 0 ? data : [FALLBACK_AGENT];
+};
+
+/** Picks the conversation's agent, falling back to the default one. */
+export const resolveAgent = (agents: Agent[], agentId: string | null | undefined): Agent => {
+  return (
+    agents.find((agent) => agent.id === agentId) ??
+    agents.find((agent) => agent.is_default) ??
+    agents[0] ??
+    FALLBACK_AGENT
+  );
+};
@@ -0,0 +1,13 @@
+// PostgREST filters travel in the request URL, so long `in` lists would
+// overflow it: queries filtering by many ids send them a slice at a time.
+
+export const FILTER_BATCH_SIZE = 100;
+
+/** `items` in consecutive slices of at most `size`. */
+export const inBatches = <T>(items: T[], size = FILTER_BATCH_SIZE): T[][] => {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    batches.push(items.slice(start, start + size));
+  }
+  return batches;
+};
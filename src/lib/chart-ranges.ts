@@ -0,0 +1,87 @@
+import type { Candle } from "@/lib/market-data";
+
+// Time ranges of the ticker chart. 1D uses the latest session's intraday
+// candles; the others cut the daily history, and 5A switches to weekly
+// candles so bars stay readable. Ranges count back from the last candle,
+// not from today, so weekends and stale sources still fill the chart.
+
+export type ChartRange = "1D" | "5D" | "1M" | "3M" | "6M" | "1A" | "5A";
+
+export interface ChartRangeOption {
+  id: ChartRange;
+  label: string;
+  source: "intraday" | "daily" | "weekly";
+  /** How far back from the last candle, for daily and weekly ranges. */
+  sessions?: number;
+  months?: number;
+}
+
+export const CHART_RANGES: ChartRangeOption[] = [
+  { id: "1D", label: "1 dia", source: "intraday" },
+  { id: "5D", label: "5 dias", source: "daily", sessions: 5 },
+  { id: "1M", label: "1 mês", source: "daily", months: 1 },
+  { id: "3M", label: "3 meses", source: "daily", months: 3 },
+  { id: "6M", label: "6 meses", source: "daily", months: 6 },
+  { id: "1A", label: "1 ano", source: "daily", months: 12 },
+  { id: "5A", label: "5 anos", source: "weekly", months: 60 },
+];
+
+export const DEFAULT_CHART_RANGE: ChartRange = "6M";
+
+// Daily history requested once for every range: 5 years plus room for the
+// longest moving average before the first visible weekly candle
+const DAILY_HISTORY_MONTHS = 72;
+
+const toDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const monthsBefore = (date: string, months: number) => {
+  const result = toDate(date);
+  result.setUTCMonth(result.getUTCMonth() - months);
+  return toIsoDate(result);
+};
+
+/** First date of the daily history the chart asks for. */
+export const dailyHistoryStart = (today = new Date()) =>
+  monthsBefore(toIsoDate(today), DAILY_HISTORY_MONTHS);
+
+/** One candle per week (Monday to Sunday), dated by its first session. */
+export const toWeeklyCandles = (daily: Candle[]): Candle[] => {
+  const weeks: Candle[] = [];
+  let currentWeek: string | null = null;
+
+  for (const candle of daily) {
+    const date = toDate(candle.time);
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    const week = toIsoDate(date);
+    const last = weeks[weeks.length - 1];
+
+    if (last && week === currentWeek) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.volume += candle.volume;
+    } else {
+      weeks.push({ ...candle });
+      currentWeek = week;
+    }
+  }
+  return weeks;
+};
+
+/**
+ * Index of the first candle inside the range. Candles before it are only
+ * there so moving averages start filled at the left edge.
+ */
+export const rangeStartIndex = (candles: Candle[], range: ChartRangeOption) => {
+  if (candles.length === 0 || range.source === "intraday") return 0;
+  if (range.sessions) return Math.max(0, candles.length - range.sessions);
+
+  const from = monthsBefore(candles[candles.length - 1].time, range.months ?? 0);
+  const index = candles.findIndex((candle) => candle.time > from);
+  return index === -1 ? 0 : index;
+};
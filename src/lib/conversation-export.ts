@@ -0,0 +1,170 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { blocksToPlainText } from "@/lib/agent-protocol";
+import { inBatches } from "@/lib/batches";
+import { formatDateTime } from "@/lib/format";
+import { type Message, toMessage } from "@/lib/messages";
+import { type VersionSelection, buildThread } from "@/lib/thread";
+
+// Conversations leave the app as a JSON archive (every message of every
+// branch, enough to import them back; see docs/conversation-archive.md), as
+// Markdown, or as a printable page.
+// Markdown and print show one thread per conversation: the one on screen
+// when exporting from the chat, the latest one otherwise.
+
+export const ARCHIVE_FORMAT = "agent-trader/conversations";
+export const ARCHIVE_VERSION = 1;
+
+export type ExportFormat = "markdown" | "json" | "pdf";
+
+export interface ArchivedMessage {
+  id: string;
+  parent_id: string | null;
+  role: string;
+  content: string;
+  /** Structured reply as sent by the agent, see agent-protocol.ts. */
+  blocks: Json | null;
+  version: number;
+  status: string | null;
+  created_at: string;
+}
+
+export interface ArchivedConversation {
+  id: string;
+  title: string;
+  agent: string | null;
+  created_at: string;
+  updated_at: string;
+  messages: ArchivedMessage[];
+}
+
+export interface ConversationArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  exported_at: string;
+  conversations: ArchivedConversation[];
+}
+
+// PostgREST caps responses at 1000 rows by default
+const MESSAGE_BATCH_SIZE = 1000;
+
+const MESSAGE_COLUMNS = "id, conversation_id, parent_id, role, content, blocks, version, status, created_at";
+
+const fetchMessageBatch = async (conversationIds: string[]) => {
+  const rows = [];
+  for (let from = 0; ; from += MESSAGE_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("messages")
+      .select(MESSAGE_COLUMNS)
+      .in("conversation_id", conversationIds)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + MESSAGE_BATCH_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < MESSAGE_BATCH_SIZE) return rows;
+  }
+};
+
+/** Loads the given conversations with all their messages, in the given order. */
+export const fetchConversationArchive = async (conversationIds: string[]): Promise<ConversationArchive> => {
+  const conversations = [];
+  const messages = [];
+  for (const ids of inBatches(conversationIds)) {
+    const { data, error } = await supabase
+      .from("conversation_summaries")
+      .select("id, title, agent_name, created_at, updated_at")
+      .in("id", ids);
+
+    if (error) throw error;
+    conversations.push(...(data || []));
+    messages.push(...await fetchMessageBatch(ids));
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    conversations: conversationIds.flatMap((id) => {
+      const conversation = conversations.find((candidate) => candidate.id === id);
+      if (!conversation) return [];
+
+      return [{
+        id,
+        title: conversation.title || "Conversa",
+        agent: conversation.agent_name,
+        created_at: conversation.created_at,
+        updated_at: conversation.updated_at,
+        messages: messages
+          .filter((message) => message.conversation_id === id)
+          .map(({ conversation_id, ...message }) => message),
+      }];
+    }),
+  };
+};
+
+/** Messages of the thread to print, oldest first. */
+export const getExportedThread = (
+  conversation: ArchivedConversation,
+  selection: VersionSelection = {}
+) =>
+  buildThread(
+    conversation.messages.map(toMessage),
+    selection
+  ).map((entry) => entry.message);
+
+export const roleLabel = (role: string, agent: string | null) =>
+  role === "user" ? "Você" : agent || "Agente";
+
+/** Exported text of a message: structured replies are rendered from their blocks. */
+export const exportedText = (message: Message) =>
+  message.blocks ? blocksToPlainText(message.blocks) : message.content;
+
+export const toMarkdown = (archive: ConversationArchive, selection?: VersionSelection) =>
+  archive.conversations
+    .map((conversation) => {
+      const header = [
+        `# ${conversation.title}`,
+        "",
+        `- Criada em: ${formatDateTime(conversation.created_at)}`,
+        `- Última atividade: ${formatDateTime(conversation.updated_at)}`,
+        ...(conversation.agent ? [`- Agente: ${conversation.agent}`] : []),
+        `- Exportada em: ${formatDateTime(archive.exported_at)}`,
+      ].join("\n");
+
+      const messages = getExportedThread(conversation, selection).map((message) =>
+        `## ${roleLabel(message.role, conversation.agent)} · ${formatDateTime(message.created_at)}\n\n${exportedText(message)}`
+      );
+
+      return [header, ...messages].join("\n\n");
+    })
+    .join("\n\n---\n\n") + "\n";
+
+export const toJson = (archive: ConversationArchive) => JSON.stringify(archive, null, 2);
+
+const slugify = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "conversa";
+
+/** File name without extension: the title for one conversation, the date for several. */
+export const exportFileName = (archive: ConversationArchive) => {
+  const date = archive.exported_at.slice(0, 10);
+  return archive.conversations.length === 1
+    ? `${slugify(archive.conversations[0].title)}-${date}`
+    : `conversas-${date}`;
+};
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,247 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { inBatches } from "@/lib/batches";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  type ArchivedConversation,
+  type ConversationArchive,
+} from "@/lib/conversation-export";
+
+// Reads archives written by the JSON export (format in
+// docs/conversation-archive.md) back into the current account. Imported
+// rows get new ids, keep their original timestamps and remember the
+// archived conversation id to spot archives imported twice.
+
+const timestampSchema = z.string().datetime({ offset: true });
+
+// Same values as the messages_status_check constraint
+const MESSAGE_STATUSES = ["pending", "sent", "failed", "answered", "interrupted", "processing"] as const;
+
+const archivedMessageSchema = z.object({
+  id: z.string().uuid(),
+  parent_id: z.string().uuid().nullable(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  blocks: z.unknown().nullable().default(null),
+  version: z.number().int().positive().default(1),
+  status: z.enum(MESSAGE_STATUSES).nullable().default(null),
+  created_at: timestampSchema,
+});
+
+const archivedConversationSchema = z
+  .object({
+    id: z.string().uuid(),
+    title: z.string().trim().min(1),
+    agent: z.string().nullable().default(null),
+    created_at: timestampSchema,
+    updated_at: timestampSchema,
+    messages: z.array(archivedMessageSchema),
+  })
+  .superRefine((conversation, context) => {
+    const ids = new Set<string>();
+    conversation.messages.forEach((message, index) => {
+      if (ids.has(message.id)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["messages", index, "id"],
+          message: "Mensagem repetida",
+        });
+      }
+      ids.add(message.id);
+    });
+
+    conversation.messages.forEach((message, index) => {
+      if (message.parent_id && !ids.has(message.parent_id)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["messages", index, "parent_id"],
+          message: "Responde a uma mensagem que não está no arquivo",
+        });
+      }
+    });
+
+    // Following parent_id must end at a first message, never come back around
+    const parents = new Map(conversation.messages.map((message) => [message.id, message.parent_id]));
+    const reachesRoot = new Set<string>();
+    conversation.messages.forEach((message, index) => {
+      const path = new Set<string>();
+      let current: string | null | undefined = message.id;
+      while (current && parents.has(current) && !reachesRoot.has(current)) {
+        if (path.has(current)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["messages", index, "parent_id"],
+            message: "Faz parte de um ciclo de respostas",
+          });
+          return;
+        }
+        path.add(current);
+        current = parents.get(current);
+      }
+      path.forEach((id) => reachesRoot.add(id));
+    });
+  });
+
+export const conversationArchiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(ARCHIVE_VERSION),
+  exported_at: timestampSchema,
+  conversations: z.array(archivedConversationSchema).min(1),
+});
+
+/** Thrown when a file is not a valid archive; `issues` are ready to show. */
+export class ArchiveValidationError extends Error {
+  constructor(public issues: string[]) {
+    super("Arquivo de conversas inválido");
+    this.name = "ArchiveValidationError";
+  }
+}
+
+const MAX_REPORTED_ISSUES = 5;
+
+const describeIssue = (issue: z.ZodIssue) =>
+  issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+
+export const parseArchive = (text: string): ConversationArchive => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ArchiveValidationError(["O arquivo não é um JSON válido"]);
+  }
+
+  const result = conversationArchiveSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map(describeIssue);
+    throw new ArchiveValidationError(
+      issues.length > MAX_REPORTED_ISSUES
+        ? [...issues.slice(0, MAX_REPORTED_ISSUES), `… e mais ${issues.length - MAX_REPORTED_ISSUES} problemas`]
+        : issues
+    );
+  }
+  return result.data as ConversationArchive;
+};
+
+/**
+ * - `new`: nothing like it in the account.
+ * - `duplicate`: this conversation (or an import of it) is already there,
+ *   or it appeared earlier in the same file.
+ * - `title_conflict`: a different conversation already uses the title.
+ */
+export type ImportStatus = "new" | "duplicate" | "title_conflict";
+
+export interface ImportCandidate {
+  conversation: ArchivedConversation;
+  status: ImportStatus;
+  /** Whether it will be imported; duplicates start unchecked. */
+  include: boolean;
+}
+
+/** Compares the archive with the user's conversations before anything is written. */
+export const planImport = async (archive: ConversationArchive, userId: string): Promise<ImportCandidate[]> => {
+  const ids = archive.conversations.map((conversation) => conversation.id);
+  const titles = [...new Set(archive.conversations.map((conversation) => conversation.title))];
+  const existing = new Set<string | null>();
+  const existingTitles = new Set<string>();
+
+  for (const batch of inBatches(ids)) {
+    const { data, error } = await supabase
+      .from("conversations")
+      .select("id, imported_from")
+      .eq("user_id", userId)
+      .or(`id.in.(${batch.join(",")}),imported_from.in.(${batch.join(",")})`);
+    if (error) throw error;
+    (data || []).forEach((row) => existing.add(row.id).add(row.imported_from));
+  }
+
+  for (const batch of inBatches(titles)) {
+    const { data, error } = await supabase
+      .from("conversations")
+      .select("title")
+      .eq("user_id", userId)
+      .in("title", batch);
+    if (error) throw error;
+    (data || []).forEach((row) => existingTitles.add(row.title));
+  }
+
+  const seen = new Set<string>();
+
+  return archive.conversations.map((conversation) => {
+    const status: ImportStatus = existing.has(conversation.id) || seen.has(conversation.id)
+      ? "duplicate"
+      : existingTitles.has(conversation.title)
+        ? "title_conflict"
+        : "new";
+    seen.add(conversation.id);
+    return { conversation, status, include: status !== "duplicate" };
+  });
+};
+
+// Parents first, so every message's parent_id exists when it is inserted
+const sortParentsFirst = (messages: ArchivedConversation["messages"]) => {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const depth = (message: ArchivedConversation["messages"][number]): number => {
+    let level = 0;
+    for (let parent = message.parent_id; parent && byId.has(parent); parent = byId.get(parent)!.parent_id) {
+      level += 1;
+    }
+    return level;
+  };
+  return [...messages].sort((a, b) => depth(a) - depth(b) || a.created_at.localeCompare(b.created_at));
+};
+
+const MESSAGE_BATCH_SIZE = 500;
+
+const importConversation = async (conversation: ArchivedConversation, userId: string) => {
+  const conversationId = crypto.randomUUID();
+  const { error } = await supabase.from("conversations").insert({
+    id: conversationId,
+    user_id: userId,
+    title: conversation.title,
+    title_source: "user",
+    created_at: conversation.created_at,
+    updated_at: conversation.updated_at,
+    imported_from: conversation.id,
+  });
+  if (error) throw error;
+
+  // Message ids are global, so they are renumbered along with the parent links
+  const newIds = new Map(conversation.messages.map((message) => [message.id, crypto.randomUUID()]));
+  const rows = sortParentsFirst(conversation.messages).map((message) => ({
+    id: newIds.get(message.id)!,
+    conversation_id: conversationId,
+    parent_id: message.parent_id ? newIds.get(message.parent_id)! : null,
+    role: message.role,
+    content: message.content,
+    blocks: message.blocks as Json,
+    version: message.version,
+    // Nobody is delivering an imported pending message, nor finishing an
+    // imported reply still in progress
+    status: message.status === "pending" || message.status === "processing" ? "failed" : message.status,
+    created_at: message.created_at,
+  }));
+
+  try {
+    for (let start = 0; start < rows.length; start += MESSAGE_BATCH_SIZE) {
+      const { error: messagesError } = await supabase
+        .from("messages")
+        .insert(rows.slice(start, start + MESSAGE_BATCH_SIZE));
+      if (messagesError) throw messagesError;
+    }
+  } catch (messagesError) {
+    // No half-imported conversations: messages go along with it
+    await supabase.from("conversations").delete().eq("id", conversationId);
+    throw messagesError;
+  }
+};
+
+/** Imports the included candidates one by one; returns how many were imported. */
+export const importConversations = async (candidates: ImportCandidate[], userId: string) => {
+  const selected = candidates.filter((candidate) => candidate.include);
+  for (const candidate of selected) {
+    await importConversation(candidate.conversation, userId);
+  }
+  return selected.length;
+};
@@ -0,0 +1,149 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { parseBlocks } from "@/lib/agent-protocol";
+import type { Message, MessageRole } from "@/lib/messages";
+
+// Public, read-only links to a conversation. Owners manage their rows in
+// `conversation_shares`; visitors only reach the `get_shared_conversation`
+// function, which checks the token and leaves everything else out.
+
+export interface ShareLink {
+  id: string;
+  conversationId: string;
+  conversationTitle: string;
+  token: string;
+  /** Null for links that never expire. */
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface SharedConversation {
+  title: string;
+  agentName: string | null;
+  agentIcon: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string | null;
+  messages: Message[];
+}
+
+/** How long a new link works, in days; null never expires. */
+export const SHARE_EXPIRATIONS: { label: string; days: number | null }[] = [
+  { label: "Sem expiração", days: null },
+  { label: "1 dia", days: 1 },
+  { label: "7 dias", days: 7 },
+  { label: "30 dias", days: 30 },
+];
+
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+const SHARE_COLUMNS = "id, conversation_id, token, expires_at, created_at, conversations(title)";
+
+type ShareRow = {
+  id: string;
+  conversation_id: string;
+  token: string;
+  expires_at: string | null;
+  created_at: string;
+  conversations: { title: string | null } | null;
+};
+
+const toShareLink = (row: ShareRow): ShareLink => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  conversationTitle: row.conversations?.title || "Conversa",
+  token: row.token,
+  expiresAt: row.expires_at,
+  createdAt: row.created_at,
+});
+
+export const createShareLink = async (
+  conversationId: string,
+  userId: string,
+  expiresInDays: number | null
+): Promise<ShareLink> => {
+  const expiresAt = expiresInDays === null
+    ? null
+    : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("conversation_shares")
+    .insert({ conversation_id: conversationId, user_id: userId, expires_at: expiresAt })
+    .select(SHARE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toShareLink(data);
+};
+
+/** Links that still work, newest first; all of the user's when no conversation is given. */
+export const listShareLinks = async (userId: string, conversationId?: string): Promise<ShareLink[]> => {
+  let query = supabase
+    .from("conversation_shares")
+    .select(SHARE_COLUMNS)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+  if (conversationId) query = query.eq("conversation_id", conversationId);
+
+  const { data, error } = await query.order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toShareLink);
+};
+
+export const revokeShareLink = async (id: string) => {
+  const { error } = await supabase
+    .from("conversation_shares")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw error;
+};
+
+interface SharedConversationPayload {
+  title: string;
+  agent_name: string | null;
+  agent_icon: string | null;
+  created_at: string;
+  updated_at: string;
+  expires_at: string | null;
+  messages: {
+    id: string;
+    parent_id: string | null;
+    role: string;
+    content: string;
+    blocks: Json | null;
+    version: number;
+    created_at: string;
+  }[];
+}
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Null when the link does not exist, was revoked or has expired. */
+export const fetchSharedConversation = async (token: string): Promise<SharedConversation | null> => {
+  // Anything else would only come back as a database error
+  if (!TOKEN_PATTERN.test(token)) return null;
+
+  const { data, error } = await supabase.rpc("get_shared_conversation", { share_token: token });
+  if (error) throw error;
+  if (!data) return null;
+
+  const payload = data as unknown as SharedConversationPayload;
+  return {
+    title: payload.title,
+    agentName: payload.agent_name,
+    agentIcon: payload.agent_icon,
+    createdAt: payload.created_at,
+    updatedAt: payload.updated_at,
+    expiresAt: payload.expires_at,
+    messages: payload.messages.map((message) => ({
+      id: message.id,
+      parent_id: message.parent_id,
+      role: message.role as MessageRole,
+      content: message.content,
+      blocks: parseBlocks(message.blocks),
+      version: message.version,
+      created_at: message.created_at,
+    })),
+  };
+};
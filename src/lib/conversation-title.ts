@@ -0,0 +1,97 @@
+// Local title heuristic for new conversations: the tickers and the topic of
+// the first exchange ("ITUB4: Dividendos"), or the start of the question
+// when neither is recognised.
+
+import { extractB3Tickers } from "@/lib/tickers";
+
+/** Where the current title came from; only "default" titles are replaced. */
+export type TitleSource = "default" | "auto" | "user";
+
+const MAX_TICKERS = 3;
+const MAX_FALLBACK_LENGTH = 48;
+
+const CRYPTO_TICKER = /\b(BTC|ETH|SOL|ADA|XRP|BNB|DOGE|DOT|AVAX|LTC|LINK|MATIC|USDT|USDC)\b/g;
+const CRYPTO_NAMES: [RegExp, string][] = [
+  [/\bbitcoin\b/, "BTC"],
+  [/\bethereum\b/, "ETH"],
+  [/\bsolana\b/, "SOL"],
+];
+
+// Checked in order against accent-free, lower-case text; the first match wins
+const TOPICS: [RegExp, string][] = [
+  [/dividendo|provento|dividend yield|\bjcp\b|juros sobre capital/, "Dividendos"],
+  [/\bfiis?\b|fundos? imobiliario/, "Fundos imobiliários"],
+  [/renda fixa|tesouro|\bcdb\b|\blci\b|\blca\b|\bselic\b|\bcdi\b|debenture/, "Renda fixa"],
+  [/\bopcao\b|\bopcoes\b|\bcall\b|\bput\b|strike/, "Opções"],
+  [/day ?trade|scalp/, "Day trade"],
+  [/swing ?trade/, "Swing trade"],
+  [/analise tecnica|suporte|resistencia|media movel|\bifr\b|\brsi\b|\bmacd\b|candle|grafico/, "Análise técnica"],
+  [/valuation|\bp\/l\b|fundamentos|balanco|resultado|\broe\b|ebitda/, "Análise fundamentalista"],
+  [/imposto|\bir\b|darf|tributa/, "Impostos"],
+  [/stop ?loss|gerenciamento de risco|gestao de risco/, "Gestão de risco"],
+  [/carteira|portfolio|diversifica|alocacao/, "Carteira"],
+  [/\bdolar\b|cambio|\beuro\b/, "Câmbio"],
+  [/cripto|blockchain/, "Criptomoedas"],
+  [/ibovespa|\bibov\b|\bbolsa\b/, "Mercado"],
+];
+
+const normalize = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+const unique = (values: string[]) => [...new Set(values)];
+
+/** Tickers in order of first mention. */
+export const extractTickers = (text: string): string[] => {
+  const normalized = normalize(text);
+  const mentions = [
+    ...extractB3Tickers(text).map(({ symbol, index }) => ({ ticker: symbol, index })),
+    ...[...text.matchAll(CRYPTO_TICKER)].map((match) => ({ ticker: match[0], index: match.index ?? 0 })),
+    ...CRYPTO_NAMES.flatMap(([pattern, ticker]) => {
+      const index = normalized.search(pattern);
+      return index >= 0 ? [{ ticker, index }] : [];
+    }),
+  ];
+  return unique(mentions.sort((a, b) => a.index - b.index).map((mention) => mention.ticker));
+};
+
+const detectTopic = (text: string) => {
+  const normalized = normalize(text);
+  return TOPICS.find(([pattern]) => pattern.test(normalized))?.[1] ?? null;
+};
+
+const GREETINGS = "oi|ola|bom dia|boa tarde|boa noite|e ai|tudo bem";
+const GREETING = new RegExp(`^(${GREETINGS})\\b`);
+// "Oi!", "Olá, tudo bem?": nothing but greetings and punctuation
+const ONLY_GREETINGS = new RegExp(`^[^a-z0-9]*((${GREETINGS})[^a-z0-9]*)+$`);
+
+// First sentence of the question that is not a greeting, cut at a word
+// boundary; null when there is nothing to show (e.g. just "?" or "Oi!")
+const fallbackTitle = (question: string) => {
+  const sentences = question.trim().split(/(?<=[.?!])\s+|\n+/).filter(Boolean);
+  const sentence = (sentences.find((candidate) => !GREETING.test(normalize(candidate))) ?? sentences[0] ?? "")
+    .replace(/[.?!:]+$/, "")
+    .trim();
+  if (!/[\p{L}\p{N}]/u.test(sentence) || ONLY_GREETINGS.test(normalize(sentence))) return null;
+
+  const title = sentence.length > MAX_FALLBACK_LENGTH
+    ? `${sentence.slice(0, MAX_FALLBACK_LENGTH).replace(/\s+\S*$/, "")}…`
+    : sentence;
+  return title.charAt(0).toUpperCase() + title.slice(1);
+};
+
+/**
+ * Title for a conversation from its first question and answer. The question
+ * decides; the answer only fills in what the question does not mention.
+ * Null when neither gives anything to go on: the default title stays.
+ */
+export const generateTitle = (question: string, answer: string): string | null => {
+  const questionTickers = extractTickers(question);
+  const tickers = (questionTickers.length > 0 ? questionTickers : extractTickers(answer))
+    .slice(0, MAX_TICKERS)
+    .join(", ");
+  const topic = detectTopic(question) ?? detectTopic(answer);
+
+  if (tickers && topic) return `${tickers}: ${topic}`;
+  if (tickers) return `Análise de ${tickers}`;
+  return topic ?? fallbackTitle(question);
+};
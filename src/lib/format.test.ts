@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { parseDecimal } from "@/lib/format";
+
+describe("parseDecimal", () => {
+  it("reads pt-BR numbers", () => {
+    expect(parseDecimal("1.234,56")).toBe(1234.56);
+    expect(parseDecimal("1.234.567,8")).toBe(1234567.8);
+    expect(parseDecimal("0,5")).toBe(0.5);
+    expect(parseDecimal(" 12,30 ")).toBe(12.3);
+  });
+
+  it("takes a dot before exactly three digits as a thousands separator", () => {
+    expect(parseDecimal("1.000")).toBe(1000);
+    expect(parseDecimal("2.500")).toBe(2500);
+    expect(parseDecimal("1.000.000")).toBe(1000000);
+  });
+
+  it("reads a plain decimal point otherwise", () => {
+    expect(parseDecimal("1234.56")).toBe(1234.56);
+    expect(parseDecimal("2.5")).toBe(2.5);
+    expect(parseDecimal("0.00012345")).toBe(0.00012345);
+    expect(parseDecimal("100")).toBe(100);
+  });
+
+  it("rejects empty and malformed input", () => {
+    expect(parseDecimal("")).toBeNull();
+    expect(parseDecimal("abc")).toBeNull();
+    expect(parseDecimal("1.23,4")).toBeNull();
+    expect(parseDecimal("1,234.56")).toBeNull();
+    expect(parseDecimal("1.2.3")).toBeNull();
+  });
+});
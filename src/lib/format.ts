@@ -0,0 +1,43 @@
+// Number formatting shared by the chat blocks and the market pages, pt-BR like the rest of the UI.
+
+export const formatCurrency = (value: number, currency = "BRL") => {
+  try {
+    return new Intl.NumberFormat("pt-BR", { style: "currency", currency }).format(value);
+  } catch {
+    // Unknown currency codes (e.g. USDT) fall back to a plain number with the code
+    return `${currency} ${formatNumber(value)}`;
+  }
+};
+
+export const formatNumber = (value: number, maximumFractionDigits = 2) =>
+  new Intl.NumberFormat("pt-BR", { maximumFractionDigits }).format(value);
+
+export const formatPercent = (value: number) =>
+  `${value > 0 ? "+" : ""}${new Intl.NumberFormat("pt-BR", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value)}%`;
+
+/** Date and time as shown across the UI, e.g. "19/10/2026, 14:32:05". */
+export const formatDateTime = (value: string | Date) => new Date(value).toLocaleString("pt-BR");
+
+// "1.234.567,89", "1.000", "1234,5": dots group thousands, the comma marks decimals
+const PT_BR_NUMBER = /^-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+// "1234.56", "0.5": a single decimal point and no grouping
+const PLAIN_NUMBER = /^-?(\d+(\.\d*)?|\.\d+)$/;
+
+/**
+ * Reads a number typed pt-BR style ("1.234,56") or plainly ("1234.56"); null
+ * when invalid. A dot followed by exactly three digits groups thousands, as
+ * in pt-BR: "1.000" is one thousand, "2.500" two thousand five hundred.
+ */
+export const parseDecimal = (input: string): number | null => {
+  const text = input.trim().replace(/\s/g, "");
+  let normalized: string;
+  if (PT_BR_NUMBER.test(text)) normalized = text.replace(/\./g, "").replace(",", ".");
+  else if (PLAIN_NUMBER.test(text)) normalized = text;
+  else return null;
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+import {
+  atr,
+  bollingerBands,
+  createBollingerBands,
+  createSma,
+  createWma,
+  ema,
+  indicatorSnapshot,
+  macd,
+  obv,
+  rsi,
+  sma,
+  stochastic,
+  vwap,
+  wma,
+} from "@/lib/indicators";
+import type { Candle } from "@/lib/market-data";
+
+const bar = (high: number, low: number, close: number, volume = 0, time = "2026-01-05"): Candle => ({
+  time,
+  open: close,
+  high,
+  low,
+  close,
+  volume,
+});
+
+// Compares series element by element, nulls included
+const expectSeries = (actual: (number | null)[], expected: (number | null)[]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, index) => {
+    if (expected[index] === null) expect(value, `index ${index}`).toBeNull();
+    else expect(value, `index ${index}`).toBeCloseTo(expected[index]!, 6);
+  });
+};
+
+// Deterministic, uneven prices: a trend with two overlapping cycles
+const closes = Array.from({ length: 120 }, (_, i) => 50 + i * 0.1 + 5 * Math.sin(i / 4) + 2 * Math.cos(i / 1.7));
+const candles = closes.map((close, i) =>
+  bar(close + 1 + (i % 3) * 0.5, close - 1 - (i % 2) * 0.4, close, 1000 + (i % 7) * 150)
+);
+
+// Wilder's example as reproduced by StockCharts for RSI(14). Their table rounds
+// the averages at every step (70.53, 66.32…); these are the unrounded values.
+const WILDER_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.0,
+  46.03, 46.41, 46.22, 45.64,
+];
+
+describe("reference values", () => {
+  it("computes SMA, EMA and WMA", () => {
+    expectSeries(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+    // Seeded with SMA(1, 2, 3) = 2, then α = 0.5
+    expectSeries(ema([1, 2, 3, 4, 5, 6], 3), [null, null, 2, 3, 4, 5]);
+    expectSeries(ema([2, 4, 6, 2], 2), [null, 3, 5, 3]);
+    expectSeries(wma([1, 2, 3, 4], 3), [null, null, 14 / 6, 20 / 6]);
+  });
+
+  it("computes RSI with Wilder's smoothing", () => {
+    const values = rsi(WILDER_CLOSES, 14);
+
+    expect(values.slice(0, 14).every((value) => value === null)).toBe(true);
+    [70.464, 66.25, 66.481, 69.347, 66.295, 57.915].forEach((expected, offset) => {
+      expect(values[14 + offset]).toBeCloseTo(expected, 2);
+    });
+  });
+
+  it("gives RSI 100 without losses and 50 on flat prices", () => {
+    expect(rsi([1, 2, 3, 4], 3)[3]).toBe(100);
+    expect(rsi([5, 5, 5, 5], 3)[3]).toBe(50);
+  });
+
+  it("computes MACD, its signal and histogram", () => {
+    const result = macd([1, 2, 3, 4, 5, 7], 2, 3, 2);
+
+    // EMA(2): 1.5, 2.5, 3.5, 4.5, 6.1667; EMA(3): 2, 3, 4, 5.5
+    expectSeries(result.macd, [null, null, 0.5, 0.5, 0.5, 6.1666667 - 5.5]);
+    expectSeries(result.signal, [null, null, null, 0.5, 0.5, 0.5 + (2 / 3) * (0.6666667 - 0.5)]);
+    expectSeries(result.histogram, [null, null, null, 0, 0, 0.6666667 - 0.6111111]);
+  });
+
+  it("computes Bollinger bands with the population deviation", () => {
+    const bands = bollingerBands([1, 2, 3, 4], 3, 2);
+    const deviation = 2 * Math.sqrt(2 / 3);
+
+    expectSeries(bands.middle, [null, null, 2, 3]);
+    expectSeries(bands.upper, [null, null, 2 + deviation, 3 + deviation]);
+    expectSeries(bands.lower, [null, null, 2 - deviation, 3 - deviation]);
+  });
+
+  it("computes ATR from true ranges", () => {
+    // True ranges: 2, 2, max(3, |13 − 10.5|, |10 − 10.5|) = 3, max(1, |12 − 12|, |11 − 12|) = 1
+    const values = atr([bar(10, 8, 9), bar(11, 9, 10.5), bar(13, 10, 12), bar(12, 11, 11.5)], 2);
+
+    expectSeries(values, [null, 2, 2.5, 1.75]);
+  });
+
+  it("computes the stochastic %K and %D", () => {
+    const result = stochastic([bar(10, 8, 9), bar(11, 9, 10), bar(12, 10, 11), bar(12, 9, 9), bar(13, 9, 13)], 3, 2);
+
+    expectSeries(result.k, [null, null, 75, 0, 100]);
+    expectSeries(result.d, [null, null, null, 37.5, 50]);
+  });
+
+  it("accumulates OBV by the direction of the close", () => {
+    const values = obv([bar(0, 0, 10, 100), bar(0, 0, 11, 200), bar(0, 0, 11, 300), bar(0, 0, 9, 400)]);
+
+    expectSeries(values, [0, 200, 200, -200]);
+  });
+
+  it("computes VWAP per session or from the start", () => {
+    const bars = [
+      bar(11, 9, 10, 100, "2026-01-05T13:00:00Z"),
+      bar(13, 11, 12, 300, "2026-01-05T14:00:00Z"),
+      bar(21, 19, 20, 50, "2026-01-06T13:00:00Z"),
+    ];
+
+    expectSeries(vwap(bars), [10, 11.5, 20]);
+    expectSeries(vwap(bars, { anchor: "start" }), [10, 11.5, 5600 / 450]);
+  });
+});
+
+describe("alignment", () => {
+  it("keeps every series as long as its input, with leading nulls", () => {
+    const firstValue = (series: (number | null)[]) => series.findIndex((value) => value !== null);
+    const macdResult = macd(closes);
+    const stochasticResult = stochastic(candles);
+
+    expect(firstValue(sma(closes, 20))).toBe(19);
+    expect(firstValue(ema(closes, 9))).toBe(8);
+    expect(firstValue(wma(closes, 10))).toBe(9);
+    expect(firstValue(rsi(closes, 14))).toBe(14);
+    expect(firstValue(macdResult.macd)).toBe(25);
+    expect(firstValue(macdResult.signal)).toBe(33);
+    expect(firstValue(bollingerBands(closes).upper)).toBe(19);
+    expect(firstValue(atr(candles, 14))).toBe(13);
+    expect(firstValue(stochasticResult.k)).toBe(13);
+    expect(firstValue(stochasticResult.d)).toBe(15);
+    expect(firstValue(obv(candles))).toBe(0);
+
+    [sma(closes, 20), rsi(closes), macdResult.histogram, atr(candles), stochasticResult.d, vwap(candles)].forEach(
+      (series) => expect(series).toHaveLength(closes.length)
+    );
+  });
+
+  it("returns only nulls when the input is shorter than the period", () => {
+    const short = closes.slice(0, 5);
+    const shortCandles = candles.slice(0, 5);
+    const allNull = (series: (number | null)[]) => series.length === 5 && series.every((value) => value === null);
+
+    expect(allNull(sma(short, 6))).toBe(true);
+    expect(allNull(ema(short, 6))).toBe(true);
+    expect(allNull(wma(short, 6))).toBe(true);
+    expect(allNull(rsi(short, 5))).toBe(true);
+    expect(allNull(macd(short).macd)).toBe(true);
+    expect(allNull(bollingerBands(short).middle)).toBe(true);
+    expect(allNull(atr(shortCandles, 6))).toBe(true);
+    expect(allNull(stochastic(shortCandles, 6).k)).toBe(true);
+  });
+
+  it("rejects invalid periods", () => {
+    expect(() => sma(closes, 0)).toThrow(RangeError);
+    expect(() => ema(closes, 2.5)).toThrow(RangeError);
+    expect(() => macd(closes, 26, 12)).toThrow(RangeError);
+  });
+});
+
+describe("incremental updates", () => {
+  // Straight from the definitions, recomputing the whole window every time
+  const windowAt = (index: number, period: number) => closes.slice(index - period + 1, index + 1);
+  const naiveSma = (index: number, period: number) =>
+    windowAt(index, period).reduce((sum, value) => sum + value, 0) / period;
+  const naiveWma = (index: number, period: number) =>
+    windowAt(index, period).reduce((sum, value, position) => sum + value * (position + 1), 0) /
+    ((period * (period + 1)) / 2);
+  const naiveDeviation = (index: number, period: number) => {
+    const mean = naiveSma(index, period);
+    return Math.sqrt(windowAt(index, period).reduce((sum, value) => sum + (value - mean) ** 2, 0) / period);
+  };
+
+  it("match a full recomputation at every step", () => {
+    const period = 10;
+    const smaIndicator = createSma(period);
+    const wmaIndicator = createWma(period);
+    const bands = createBollingerBands(period, 2);
+
+    closes.forEach((close, index) => {
+      const smaValue = smaIndicator.next(close);
+      const wmaValue = wmaIndicator.next(close);
+      const band = bands.next(close);
+
+      if (index < period - 1) {
+        expect([smaValue, wmaValue, band]).toEqual([null, null, null]);
+        return;
+      }
+      expect(smaValue).toBeCloseTo(naiveSma(index, period), 9);
+      expect(wmaValue).toBeCloseTo(naiveWma(index, period), 9);
+      expect(band!.upper - band!.middle).toBeCloseTo(2 * naiveDeviation(index, period), 9);
+    });
+  });
+
+  it("give the same values as the series over the prefix seen so far", () => {
+    for (const length of [1, 30, 61, closes.length]) {
+      const prefix = closes.slice(0, length);
+      expect(sma(prefix, 20)).toEqual(sma(closes, 20).slice(0, length));
+      expect(rsi(prefix)).toEqual(rsi(closes).slice(0, length));
+      expect(macd(prefix).signal).toEqual(macd(closes).signal.slice(0, length));
+    }
+  });
+
+  it("agree with the series in the snapshot", () => {
+    const snapshot = indicatorSnapshot(candles)!;
+    const last = candles.length - 1;
+
+    expect(snapshot.time).toBe(candles[last].time);
+    expect(snapshot.sma20).toBe(sma(closes, 20)[last]);
+    expect(snapshot.ema21).toBe(ema(closes, 21)[last]);
+    expect(snapshot.rsi14).toBe(rsi(closes, 14)[last]);
+    expect(snapshot.macd?.signal).toBe(macd(closes).signal[last]);
+    expect(snapshot.bollinger?.upper).toBe(bollingerBands(closes).upper[last]);
+    expect(snapshot.atr14).toBe(atr(candles, 14)[last]);
+    expect(snapshot.stochastic?.d).toBe(stochastic(candles).d[last]);
+    expect(snapshot.obv).toBe(obv(candles)[last]);
+    expect(indicatorSnapshot([])).toBeNull();
+  });
+});
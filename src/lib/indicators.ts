@@ -0,0 +1,401 @@
+import type { Candle } from "@/lib/market-data";
+
+// Technical indicators over price series. Every series function returns a
+// result aligned with its input: entry i belongs to candle i, and entries
+// without enough history yet are null.
+//
+// Each indicator also has an incremental form (`createSma`, `createRsi`…):
+// feed it one value or candle at a time with `next` and it returns the
+// indicator at that point, so a new candle costs O(1) (O(period) for
+// Stochastic) instead of a full recomputation. The series functions are
+// built on them, so both forms always give the same numbers.
+//
+// Conventions: EMA seeds with the SMA of its first `period` values; RSI and
+// ATR use Wilder's smoothing, like most charting platforms.
+
+export type IndicatorSeries = (number | null)[];
+
+type PriceBar = Pick<Candle, "high" | "low" | "close">;
+type VolumeBar = Pick<Candle, "close" | "volume">;
+type SessionBar = Pick<Candle, "time" | "high" | "low" | "close" | "volume">;
+
+export interface Incremental<TInput, TOutput> {
+  /** Adds the next point and returns the indicator at it (null while warming up). */
+  next(input: TInput): TOutput | null;
+}
+
+export interface BollingerPoint {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export interface BollingerBands {
+  middle: IndicatorSeries;
+  upper: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export interface MacdPoint {
+  macd: number;
+  /** Null until the signal line has enough MACD values. */
+  signal: number | null;
+  histogram: number | null;
+}
+
+export interface MacdSeries {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+export interface StochasticPoint {
+  k: number;
+  /** Null until %D has enough %K values. */
+  d: number | null;
+}
+
+export interface StochasticSeries {
+  k: IndicatorSeries;
+  d: IndicatorSeries;
+}
+
+const assertPeriod = (period: number) => {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new RangeError(`Período inválido: ${period}`);
+  }
+};
+
+const toSeries = <TInput>(inputs: TInput[], indicator: Incremental<TInput, number>): IndicatorSeries =>
+  inputs.map((input) => indicator.next(input));
+
+// ----- Incremental indicators -----
+
+/** Simple moving average, with a running sum. */
+export const createSma = (period: number): Incremental<number, number> => {
+  assertPeriod(period);
+  const window: number[] = [];
+  let sum = 0;
+  return {
+    next(value) {
+      window.push(value);
+      sum += value;
+      if (window.length > period) sum -= window.shift()!;
+      return window.length === period ? sum / period : null;
+    },
+  };
+};
+
+/** Exponential moving average (α = 2 / (period + 1)), seeded with the SMA of the first values. */
+export const createEma = (period: number): Incremental<number, number> => {
+  assertPeriod(period);
+  const alpha = 2 / (period + 1);
+  const seed = createSma(period);
+  let ema: number | null = null;
+  return {
+    next(value) {
+      ema = ema === null ? seed.next(value) : ema + alpha * (value - ema);
+      return ema;
+    },
+  };
+};
+
+/** Linearly weighted moving average: the newest value weighs `period`, the oldest 1. */
+export const createWma = (period: number): Incremental<number, number> => {
+  assertPeriod(period);
+  const denominator = (period * (period + 1)) / 2;
+  const window: number[] = [];
+  let sum = 0;
+  let weightedSum = 0;
+  return {
+    next(value) {
+      // Shifting the window lowers every weight by one, i.e. subtracts the plain sum
+      weightedSum += Math.min(window.length + 1, period) * value - (window.length === period ? sum : 0);
+      window.push(value);
+      sum += value;
+      if (window.length > period) sum -= window.shift()!;
+      return window.length === period ? weightedSum / denominator : null;
+    },
+  };
+};
+
+/** Relative Strength Index (0–100), Wilder's smoothing; first value after `period` changes. */
+export const createRsi = (period = 14): Incremental<number, number> => {
+  assertPeriod(period);
+  let previous: number | null = null;
+  let count = 0;
+  let averageGain = 0;
+  let averageLoss = 0;
+  return {
+    next(value) {
+      if (previous === null) {
+        previous = value;
+        return null;
+      }
+      const change = value - previous;
+      previous = value;
+      const gain = Math.max(change, 0);
+      const loss = Math.max(-change, 0);
+      count++;
+
+      if (count <= period) {
+        averageGain += gain / period;
+        averageLoss += loss / period;
+        if (count < period) return null;
+      } else {
+        averageGain = (averageGain * (period - 1) + gain) / period;
+        averageLoss = (averageLoss * (period - 1) + loss) / period;
+      }
+
+      if (averageLoss === 0) return averageGain === 0 ? 50 : 100;
+      return 100 - 100 / (1 + averageGain / averageLoss);
+    },
+  };
+};
+
+/** MACD line (fast EMA − slow EMA), its signal EMA and the histogram between them. */
+export const createMacd = (fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): Incremental<number, MacdPoint> => {
+  if (fastPeriod >= slowPeriod) {
+    throw new RangeError(`O período rápido (${fastPeriod}) deve ser menor que o lento (${slowPeriod})`);
+  }
+  const fast = createEma(fastPeriod);
+  const slow = createEma(slowPeriod);
+  const signalLine = createEma(signalPeriod);
+  return {
+    next(value) {
+      const fastValue = fast.next(value);
+      const slowValue = slow.next(value);
+      if (fastValue === null || slowValue === null) return null;
+      const macd = fastValue - slowValue;
+      const signal = signalLine.next(macd);
+      return { macd, signal, histogram: signal === null ? null : macd - signal };
+    },
+  };
+};
+
+/** SMA ± `multiplier` population standard deviations over the same window. */
+export const createBollingerBands = (period = 20, multiplier = 2): Incremental<number, BollingerPoint> => {
+  assertPeriod(period);
+  const window: number[] = [];
+  let sum = 0;
+  let sumOfSquares = 0;
+  return {
+    next(value) {
+      window.push(value);
+      sum += value;
+      sumOfSquares += value * value;
+      if (window.length > period) {
+        const dropped = window.shift()!;
+        sum -= dropped;
+        sumOfSquares -= dropped * dropped;
+      }
+      if (window.length < period) return null;
+
+      const middle = sum / period;
+      // Clamped: rounding can leave a tiny negative variance on flat prices
+      const deviation = Math.sqrt(Math.max(0, sumOfSquares / period - middle * middle)) * multiplier;
+      return { middle, upper: middle + deviation, lower: middle - deviation };
+    },
+  };
+};
+
+/**
+ * Average True Range, Wilder's smoothing. The first candle's true range is
+ * its high − low (there is no previous close), so the first ATR is at
+ * index `period − 1`.
+ */
+export const createAtr = (period = 14): Incremental<PriceBar, number> => {
+  assertPeriod(period);
+  let previousClose: number | null = null;
+  let count = 0;
+  let atr = 0;
+  return {
+    next({ high, low, close }) {
+      const trueRange = previousClose === null
+        ? high - low
+        : Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose));
+      previousClose = close;
+      count++;
+
+      if (count <= period) {
+        atr += trueRange / period;
+        return count === period ? atr : null;
+      }
+      atr = (atr * (period - 1) + trueRange) / period;
+      return atr;
+    },
+  };
+};
+
+/**
+ * Stochastic oscillator: %K is where the close sits in the `kPeriod` high–low
+ * range (0–100), %D its `dPeriod` SMA. A flat range gives 50.
+ */
+export const createStochastic = (kPeriod = 14, dPeriod = 3): Incremental<PriceBar, StochasticPoint> => {
+  assertPeriod(kPeriod);
+  const window: PriceBar[] = [];
+  const d = createSma(dPeriod);
+  return {
+    next(bar) {
+      window.push(bar);
+      if (window.length > kPeriod) window.shift();
+      if (window.length < kPeriod) return null;
+
+      const highest = Math.max(...window.map((item) => item.high));
+      const lowest = Math.min(...window.map((item) => item.low));
+      const k = highest === lowest ? 50 : ((bar.close - lowest) / (highest - lowest)) * 100;
+      return { k, d: d.next(k) };
+    },
+  };
+};
+
+/** On-Balance Volume, starting at 0 on the first candle. */
+export const createObv = (): Incremental<VolumeBar, number> => {
+  let previousClose: number | null = null;
+  let obv = 0;
+  return {
+    next({ close, volume }) {
+      if (previousClose !== null) {
+        if (close > previousClose) obv += volume;
+        else if (close < previousClose) obv -= volume;
+      }
+      previousClose = close;
+      return obv;
+    },
+  };
+};
+
+/**
+ * Volume-weighted average of the typical price (high + low + close) / 3.
+ * Anchored to the session by default: it restarts when the candle's date
+ * (`time` up to the day) changes, which is what intraday charts expect.
+ * `anchor: "start"` accumulates over the whole input instead.
+ */
+export const createVwap = ({ anchor = "session" }: { anchor?: "session" | "start" } = {}): Incremental<
+  SessionBar,
+  number
+> => {
+  let session: string | null = null;
+  let priceVolume = 0;
+  let volume = 0;
+  return {
+    next(bar) {
+      const day = bar.time.slice(0, 10);
+      if (anchor === "session" && day !== session) {
+        session = day;
+        priceVolume = 0;
+        volume = 0;
+      }
+      priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+      volume += bar.volume;
+      return volume === 0 ? null : priceVolume / volume;
+    },
+  };
+};
+
+// ----- Series -----
+
+export const sma = (values: number[], period: number) => toSeries(values, createSma(period));
+
+export const ema = (values: number[], period: number) => toSeries(values, createEma(period));
+
+export const wma = (values: number[], period: number) => toSeries(values, createWma(period));
+
+export const rsi = (values: number[], period = 14) => toSeries(values, createRsi(period));
+
+export const macd = (values: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MacdSeries => {
+  const indicator = createMacd(fastPeriod, slowPeriod, signalPeriod);
+  const result: MacdSeries = { macd: [], signal: [], histogram: [] };
+  values.forEach((value) => {
+    const point = indicator.next(value);
+    result.macd.push(point?.macd ?? null);
+    result.signal.push(point?.signal ?? null);
+    result.histogram.push(point?.histogram ?? null);
+  });
+  return result;
+};
+
+export const bollingerBands = (values: number[], period = 20, multiplier = 2): BollingerBands => {
+  const indicator = createBollingerBands(period, multiplier);
+  const result: BollingerBands = { middle: [], upper: [], lower: [] };
+  values.forEach((value) => {
+    const point = indicator.next(value);
+    result.middle.push(point?.middle ?? null);
+    result.upper.push(point?.upper ?? null);
+    result.lower.push(point?.lower ?? null);
+  });
+  return result;
+};
+
+export const atr = (candles: PriceBar[], period = 14) => toSeries(candles, createAtr(period));
+
+export const stochastic = (candles: PriceBar[], kPeriod = 14, dPeriod = 3): StochasticSeries => {
+  const indicator = createStochastic(kPeriod, dPeriod);
+  const result: StochasticSeries = { k: [], d: [] };
+  candles.forEach((candle) => {
+    const point = indicator.next(candle);
+    result.k.push(point?.k ?? null);
+    result.d.push(point?.d ?? null);
+  });
+  return result;
+};
+
+export const obv = (candles: VolumeBar[]) => toSeries(candles, createObv());
+
+export const vwap = (candles: SessionBar[], options?: { anchor?: "session" | "start" }) =>
+  toSeries(candles, createVwap(options));
+
+// ----- Snapshot -----
+
+/** Latest value of the usual indicators, for alerts, screeners and the agent context. */
+export interface IndicatorSnapshot {
+  time: string;
+  close: number;
+  sma20: number | null;
+  sma50: number | null;
+  ema9: number | null;
+  ema21: number | null;
+  rsi14: number | null;
+  macd: MacdPoint | null;
+  bollinger: BollingerPoint | null;
+  atr14: number | null;
+  stochastic: StochasticPoint | null;
+  obv: number;
+}
+
+/** Replays the candles through every indicator once; null when there are no candles. */
+export const indicatorSnapshot = (candles: Candle[]): IndicatorSnapshot | null => {
+  if (candles.length === 0) return null;
+
+  const indicators = {
+    sma20: createSma(20),
+    sma50: createSma(50),
+    ema9: createEma(9),
+    ema21: createEma(21),
+    rsi14: createRsi(14),
+    macd: createMacd(),
+    bollinger: createBollingerBands(),
+    atr14: createAtr(14),
+    stochastic: createStochastic(),
+    obv: createObv(),
+  };
+
+  let snapshot: IndicatorSnapshot | null = null;
+  for (const candle of candles) {
+    snapshot = {
+      time: candle.time,
+      close: candle.close,
+      sma20: indicators.sma20.next(candle.close),
+      sma50: indicators.sma50.next(candle.close),
+      ema9: indicators.ema9.next(candle.close),
+      ema21: indicators.ema21.next(candle.close),
+      rsi14: indicators.rsi14.next(candle.close),
+      macd: indicators.macd.next(candle.close),
+      bollinger: indicators.bollinger.next(candle.close),
+      atr14: indicators.atr14.next(candle),
+      stochastic: indicators.stochastic.next(candle),
+      obv: indicators.obv.next(candle),
+    };
+  }
+  return snapshot;
+};
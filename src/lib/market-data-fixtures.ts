@@ -0,0 +1,129 @@
+import {
+  DEFAULT_INTRADAY_INTERVAL,
+  INTRADAY_INTERVAL_MINUTES,
+  MarketDataError,
+  candleSchema,
+  isInDateRange,
+  quoteFromCandles,
+  resampleCandles,
+  type Candle,
+  type MarketDataProvider,
+} from "@/lib/market-data";
+import { TICKER_CATALOG, normalizeSymbol } from "@/lib/tickers";
+
+// Offline provider backed by the files in src/fixtures/market-data:
+//
+//   daily/<SYMBOL>.csv      date,open,high,low,close,volume
+//   intraday/<SYMBOL>.json  { "symbol", "interval": "5m", "candles": [...] }
+//
+// The quote is the last intraday candle against the previous daily close.
+// Files are loaded on first use, so they stay out of the main bundle.
+
+const dailyFiles = import.meta.glob<string>("../fixtures/market-data/daily/*.csv", {
+  query: "?raw",
+  import: "default",
+});
+const intradayFiles = import.meta.glob<unknown>("../fixtures/market-data/intraday/*.json", {
+  import: "default",
+});
+
+const FIXTURE_INTERVAL_MINUTES = 5;
+const MAX_SEARCH_RESULTS = 20;
+
+const bySymbol = <T>(files: Record<string, () => Promise<T>>) =>
+  new Map(
+    Object.entries(files).map(([path, load]) => [path.split("/").pop()!.replace(/\.\w+$/, ""), load])
+  );
+
+const dailyLoaders = bySymbol(dailyFiles);
+const intradayLoaders = bySymbol(intradayFiles);
+
+export const FIXTURE_SYMBOLS = [...dailyLoaders.keys()].sort();
+
+const parseCsv = (symbol: string, text: string): Candle[] => {
+  const [header, ...lines] = text.trim().split(/\r?\n/);
+  if (header.trim() !== "date,open,high,low,close,volume") {
+    throw new MarketDataError("invalid_response", `Cabeçalho inesperado em daily/${symbol}.csv`);
+  }
+
+  return lines.map((line, index) => {
+    const [time, ...values] = line.split(",");
+    const [open, high, low, close, volume] = values.map(Number);
+    const parsed = candleSchema.safeParse({ time, open, high, low, close, volume });
+    if (!parsed.success || values.some((value) => value.trim() === "" || Number.isNaN(Number(value)))) {
+      throw new MarketDataError("invalid_response", `Linha ${index + 2} inválida em daily/${symbol}.csv`);
+    }
+    return parsed.data;
+  });
+};
+
+const parseIntraday = (symbol: string, json: unknown): Candle[] => {
+  const candles = (json as { candles?: unknown })?.candles;
+  const parsed = candleSchema.array().safeParse(candles);
+  if (!parsed.success) {
+    throw new MarketDataError("invalid_response", `Candles inválidos em intraday/${symbol}.json`);
+  }
+  return parsed.data;
+};
+
+// Parsed files, kept for the session; fixtures never change at runtime
+const dailyCache = new Map<string, Promise<Candle[]>>();
+const intradayCache = new Map<string, Promise<Candle[]>>();
+
+const loadOnce = <T>(
+  cache: Map<string, Promise<Candle[]>>,
+  loaders: Map<string, () => Promise<T>>,
+  symbol: string,
+  parse: (symbol: string, content: T) => Candle[]
+) => {
+  const load = loaders.get(symbol);
+  if (!load) {
+    return Promise.reject(new MarketDataError("not_found", `Sem dados de exemplo para ${symbol}`));
+  }
+  if (!cache.has(symbol)) {
+    const candles = load().then((content) => parse(symbol, content));
+    // A failed parse is not cached, so fixing the file and retrying works
+    candles.catch(() => cache.delete(symbol));
+    cache.set(symbol, candles);
+  }
+  return cache.get(symbol)!;
+};
+
+const loadDaily = (symbol: string) => loadOnce(dailyCache, dailyLoaders, symbol, parseCsv);
+const loadIntraday = (symbol: string) => loadOnce(intradayCache, intradayLoaders, symbol, parseIntraday);
+
+// Day of an intraday candle as written in the file (exchange time)
+const sessionDate = (candle: Candle) => candle.time.slice(0, 10);
+
+export const createFixtureProvider = (): MarketDataProvider => ({
+  id: "fixtures",
+
+  async getQuote(rawSymbol) {
+    const symbol = normalizeSymbol(rawSymbol);
+    const [session, daily] = await Promise.all([loadIntraday(symbol), loadDaily(symbol)]);
+    const today = session.length > 0 ? sessionDate(session[0]) : null;
+    const previous = daily.filter((candle) => today === null || candle.time < today).pop();
+    return quoteFromCandles(symbol, session, previous?.close ?? null);
+  },
+
+  async getIntradayHistory(rawSymbol, { interval = DEFAULT_INTRADAY_INTERVAL } = {}) {
+    const candles = await loadIntraday(normalizeSymbol(rawSymbol));
+    const minutes = INTRADAY_INTERVAL_MINUTES[interval];
+    return minutes === FIXTURE_INTERVAL_MINUTES ? candles : resampleCandles(candles, minutes);
+  },
+
+  async getDailyHistory(rawSymbol, options = {}) {
+    const candles = await loadDaily(normalizeSymbol(rawSymbol));
+    return candles.filter((candle) => isInDateRange(candle.time, options));
+  },
+
+  async searchSymbols(query) {
+    const term = normalizeSymbol(query);
+    if (!term) return [];
+    return TICKER_CATALOG.filter(
+      (ticker) =>
+        dailyLoaders.has(ticker.symbol) &&
+        (ticker.symbol.startsWith(term) || ticker.name.toUpperCase().includes(term))
+    ).slice(0, MAX_SEARCH_RESULTS);
+  },
+});
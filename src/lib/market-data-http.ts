@@ -0,0 +1,136 @@
+import { z } from "zod";
+import {
+  DEFAULT_INTRADAY_INTERVAL,
+  MarketDataError,
+  candleSchema,
+  quoteSchema,
+  symbolMatchSchema,
+  type MarketDataProvider,
+} from "@/lib/market-data";
+import { normalizeSymbol } from "@/lib/tickers";
+
+// Provider for any HTTP service that speaks this contract (JSON, prices in BRL):
+//
+//   GET {baseUrl}/quote/{symbol}                             -> Quote
+//   GET {baseUrl}/history/{symbol}?resolution=daily&from&to  -> { candles: Candle[] }
+//   GET {baseUrl}/history/{symbol}?resolution=5m             -> { candles: Candle[] }
+//   GET {baseUrl}/search?q={query}                           -> { results: SymbolMatch[] }
+//
+// A 404 means the symbol is unknown. A vendor with another format sits
+// behind a small adapter service (or an Edge Function) that translates it.
+
+export interface HttpProviderConfig {
+  baseUrl: string;
+  /** Sent in `apiKeyHeader`, or as a Bearer token when no header is set. */
+  apiKey?: string;
+  apiKeyHeader?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const candlesResponseSchema = z.object({ candles: z.array(candleSchema) });
+const searchResponseSchema = z.object({ results: z.array(symbolMatchSchema) });
+
+export const createHttpProvider = ({
+  baseUrl,
+  apiKey,
+  apiKeyHeader,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: HttpProviderConfig): MarketDataProvider => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (apiKey) {
+    if (apiKeyHeader) {
+      headers[apiKeyHeader] = apiKey;
+    } else {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+  }
+
+  const request = async <T>(
+    path: string,
+    params: Record<string, string | undefined>,
+    schema: z.ZodType<T>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    const url = new URL(`${root}${path}`);
+    Object.entries(params).forEach(([key, value]) => value !== undefined && url.searchParams.set(key, value));
+
+    // The caller's signal cancels the request; the timeout turns into an error
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal: controller.signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new MarketDataError(
+        "unavailable",
+        timedOut ? "O serviço de cotações não respondeu a tempo" : "Não foi possível acessar o serviço de cotações"
+      );
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (response.status === 404) {
+      throw new MarketDataError("not_found", "Ativo não encontrado no serviço de cotações");
+    }
+    if (!response.ok) {
+      throw new MarketDataError("unavailable", `O serviço de cotações retornou status ${response.status}`);
+    }
+
+    const body = await response.json().catch(() => null);
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      console.error("Resposta inválida do serviço de cotações:", url.pathname, parsed.error.issues);
+      throw new MarketDataError("invalid_response", "O serviço de cotações retornou dados inválidos");
+    }
+    return parsed.data;
+  };
+
+  const symbolPath = (prefix: string, symbol: string) =>
+    `${prefix}/${encodeURIComponent(normalizeSymbol(symbol))}`;
+
+  return {
+    id: `http:${root}`,
+
+    getQuote: (symbol, { signal } = {}) =>
+      request(symbolPath("/quote", symbol), {}, quoteSchema, signal),
+
+    getIntradayHistory: async (symbol, { interval = DEFAULT_INTRADAY_INTERVAL, signal } = {}) => {
+      const { candles } = await request(
+        symbolPath("/history", symbol),
+        { resolution: interval },
+        candlesResponseSchema,
+        signal
+      );
+      return candles;
+    },
+
+    getDailyHistory: async (symbol, { from, to, signal } = {}) => {
+      const { candles } = await request(
+        symbolPath("/history", symbol),
+        { resolution: "daily", from, to },
+        candlesResponseSchema,
+        signal
+      );
+      return candles;
+    },
+
+    searchSymbols: async (query, { signal } = {}) => {
+      if (!query.trim()) return [];
+      const { results } = await request("/search", { q: query.trim() }, searchResponseSchema, signal);
+      return results;
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import { z } from "zod";
+
+// Market data contract. Pages and hooks talk to a MarketDataProvider and
+// never to a vendor directly, so the fixture provider (offline development)
+// and the HTTP provider are interchangeable. Prices are in BRL.
+
+export type IntradayInterval = "5m" | "15m" | "30m" | "60m";
+
+export const INTRADAY_INTERVAL_MINUTES: Record<IntradayInterval, number> = {
+  "5m": 5,
+  "15m": 15,
+  "30m": 30,
+  "60m": 60,
+};
+
+export const candleSchema = z.object({
+  /**
+   * Daily candles: the trading date, `YYYY-MM-DD`.
+   * Intraday candles: the bar's opening time, ISO 8601 with offset.
+   */
+  time: z.string(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number().nonnegative(),
+});
+
+export const quoteSchema = z.object({
+  symbol: z.string(),
+  price: z.number(),
+  previous_close: z.number().nullable(),
+  change: z.number().nullable(),
+  change_percent: z.number().nullable(),
+  open: z.number().nullable(),
+  high: z.number().nullable(),
+  low: z.number().nullable(),
+  volume: z.number().nullable(),
+  /** Time of the last trade, ISO 8601. */
+  updated_at: z.string(),
+});
+
+export const symbolMatchSchema = z.object({
+  symbol: z.string(),
+  name: z.string(),
+  market: z.enum(["b3", "crypto"]),
+});
+
+export type Candle = z.infer<typeof candleSchema>;
+export type Quote = z.infer<typeof quoteSchema>;
+export type SymbolMatch = z.infer<typeof symbolMatchSchema>;
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface IntradayOptions extends RequestOptions {
+  interval?: IntradayInterval;
+}
+
+export interface DailyHistoryOptions extends RequestOptions {
+  /** First trading date to include, `YYYY-MM-DD`. */
+  from?: string;
+  /** Last trading date to include, `YYYY-MM-DD`. */
+  to?: string;
+}
+
+export interface MarketDataProvider {
+  /** Shown in logs and used in cache keys. */
+  readonly id: string;
+  getQuote(symbol: string, options?: RequestOptions): Promise<Quote>;
+  /** Candles of the latest session, oldest first. */
+  getIntradayHistory(symbol: string, options?: IntradayOptions): Promise<Candle[]>;
+  /** Daily candles, oldest first. */
+  getDailyHistory(symbol: string, options?: DailyHistoryOptions): Promise<Candle[]>;
+  searchSymbols(query: string, options?: RequestOptions): Promise<SymbolMatch[]>;
+}
+
+export type MarketDataErrorCode = "not_found" | "unavailable" | "invalid_response";
+
+/** Thrown by providers; `not_found` means the symbol has no data, not that the source is down. */
+export class MarketDataError extends Error {
+  constructor(public code: MarketDataErrorCode, message: string) {
+    super(message);
+    this.name = "MarketDataError";
+  }
+}
+
+export const DEFAULT_INTRADAY_INTERVAL: IntradayInterval = "5m";
+
+export const isInDateRange = (date: string, { from, to }: DailyHistoryOptions) =>
+  (!from || date >= from) && (!to || date <= to);
+
+/**
+ * Merges consecutive candles into `minutes`-long bars. Buckets follow the
+ * clock (10:00, 10:15…), which matches sessions opening on the hour.
+ */
+export const resampleCandles = (candles: Candle[], minutes: number): Candle[] => {
+  const size = minutes * 60_000;
+  const bars: Candle[] = [];
+  let bucket: number | null = null;
+
+  for (const candle of candles) {
+    const start = Math.floor(Date.parse(candle.time) / size) * size;
+    const last = bars[bars.length - 1];
+    if (last && start === bucket) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.volume += candle.volume;
+    } else {
+      bars.push({ ...candle });
+      bucket = start;
+    }
+  }
+  return bars;
+};
+
+/**
+ * Quote built from the latest session's candles and the previous daily
+ * close, for sources that only serve candles.
+ */
+export const quoteFromCandles = (symbol: string, session: Candle[], previousClose: number | null): Quote => {
+  if (session.length === 0) {
+    throw new MarketDataError("not_found", `Sem negociações recentes de ${symbol}`);
+  }
+  const last = session[session.length - 1];
+  const change = previousClose === null ? null : last.close - previousClose;
+  return {
+    symbol,
+    price: last.close,
+    previous_close: previousClose,
+    change,
+    change_percent: change === null || !previousClose ? null : (change / previousClose) * 100,
+    open: session[0].open,
+    high: Math.max(...session.map((candle) => candle.high)),
+    low: Math.min(...session.map((candle) => candle.low)),
+    volume: session.reduce((sum, candle) => sum + candle.volume, 0),
+    updated_at: last.time,
+  };
+};
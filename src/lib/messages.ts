@@ -0,0 +1,48 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { type MessageBlock, parseBlocks } from "@/lib/agent-protocol";
+
+export type MessageRole = "user" | "assistant";
+
+/**
+ * Delivery status of a user message. Assistant messages have none, except
+ * `interrupted` for replies the user stopped halfway, and `processing` then
+ * none or `failed` for replies an agent works on asynchronously.
+ */
+export type MessageStatus = "pending" | "sent" | "failed" | "answered" | "interrupted" | "processing";
+
+export interface Message {
+  id: string;
+  content: string;
+  role: MessageRole;
+  created_at: string;
+  status?: MessageStatus | null;
+  /** Message this one follows in the thread; null for the first message. */
+  parent_id?: string | null;
+  /** 1-based version among messages sharing the same parent. */
+  version?: number;
+  /** Structured reply blocks; `content` holds their plain-text fallback. */
+  blocks?: MessageBlock[] | null;
+}
+
+type MessageColumns = "id" | "content" | "role" | "created_at" | "status" | "parent_id" | "version" | "blocks";
+
+export const toMessage = (row: Pick<Tables<"messages">, MessageColumns>): Message => ({
+  id: row.id,
+  content: row.content,
+  role: row.role as MessageRole,
+  created_at: row.created_at,
+  status: row.status as MessageStatus | null,
+  parent_id: row.parent_id,
+  version: row.version,
+  blocks: parseBlocks(row.blocks),
+});
+
+/** Adds or replaces messages by id; messages already there keep their place. */
+export const upsertMessages = (messages: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map(incoming.map((message) => [message.id, message]));
+  const known = new Set(messages.map((message) => message.id));
+  return [
+    ...messages.map((message) => byId.get(message.id) ?? message),
+    ...incoming.filter((message) => !known.has(message.id)),
+  ];
+};
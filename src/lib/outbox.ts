@@ -0,0 +1,49 @@
+// Local queue of user messages that could not reach the server. Entries live
+// in localStorage so they survive reloads and are resent once back online.
+
+export interface OutboxEntry {
+  id: string;
+  conversation_id: string;
+  content: string;
+  created_at: string;
+  parent_id: string | null;
+  version: number;
+}
+
+const OUTBOX_KEY = "agent-trader:outbox";
+
+const readOutbox = (): OutboxEntry[] => {
+  try {
+    const raw = localStorage.getItem(OUTBOX_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  if (entries.length === 0) {
+    localStorage.removeItem(OUTBOX_KEY);
+  } else {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  }
+};
+
+export const getOutbox = (conversationId?: string) => {
+  const entries = readOutbox();
+  return conversationId
+    ? entries.filter((entry) => entry.conversation_id === conversationId)
+    : entries;
+};
+
+export const isQueued = (messageId: string) =>
+  readOutbox().some((entry) => entry.id === messageId);
+
+export const enqueueOutbox = (entry: OutboxEntry) => {
+  const entries = readOutbox().filter((queued) => queued.id !== entry.id);
+  writeOutbox([...entries, entry]);
+};
+
+export const removeFromOutbox = (messageId: string) => {
+  writeOutbox(readOutbox().filter((entry) => entry.id !== messageId));
+};
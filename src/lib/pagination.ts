@@ -0,0 +1,24 @@
+// Keyset pagination: pages are ordered by a timestamp column and then by id,
+// both descending, and each page starts right after the last row of the
+// previous one. Unlike offsets, rows added meanwhile do not shift pages.
+
+export interface PageCursor {
+  /** Timestamp of the last row already loaded. */
+  value: string;
+  id: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+/** PostgREST `or` filter for rows after `cursor` in (`column` desc, id desc) order. */
+export const afterCursor = (column: string, { value, id }: PageCursor) =>
+  `${column}.lt."${value}",and(${column}.eq."${value}",id.lt.${id})`;
+
+/** Queries ask for one row more than the page size to learn whether more exist. */
+export const toPage = <T>(rows: T[] | null, pageSize: number): Page<T> => ({
+  items: (rows || []).slice(0, pageSize),
+  hasMore: (rows || []).length > pageSize,
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  OversoldPositionError,
+  type Transaction,
+  computePosition,
+  summarizePortfolio,
+  valueHolding,
+} from "@/lib/portfolio";
+
+let sequence = 0;
+
+const trade = (
+  type: Transaction["type"],
+  quantity: number,
+  price: number,
+  { fees = 0, traded_at = "2026-01-05", created_at }: Partial<Pick<Transaction, "fees" | "traded_at" | "created_at">> = {}
+): Transaction => {
+  sequence += 1;
+  return {
+    id: `t${sequence}`,
+    type,
+    quantity,
+    price,
+    fees,
+    traded_at,
+    created_at: created_at ?? `2026-01-01T00:00:${String(sequence % 60).padStart(2, "0")}Z`,
+  };
+};
+
+describe("computePosition", () => {
+  it("adds fees to the cost of buys when averaging", () => {
+    const position = computePosition([
+      trade("buy", 100, 10, { fees: 5, traded_at: "2026-01-05" }),
+      trade("buy", 100, 12, { fees: 5, traded_at: "2026-01-06" }),
+    ]);
+
+    expect(position.quantity).toBe(200);
+    expect(position.cost).toBeCloseTo(2210);
+    expect(position.averagePrice).toBeCloseTo(11.05);
+    expect(position.totalFees).toBe(10);
+  });
+
+  it("keeps the average price on sells and realizes P&L net of fees", () => {
+    const position = computePosition([
+      trade("buy", 100, 10, { fees: 10, traded_at: "2026-01-05" }),
+      trade("sell", 40, 12, { fees: 4, traded_at: "2026-01-06" }),
+    ]);
+
+    expect(position.quantity).toBe(60);
+    expect(position.averagePrice).toBeCloseTo(10.1);
+    expect(position.cost).toBeCloseTo(606);
+    // (12 − 10.10) × 40 − 4
+    expect(position.realizedPnl).toBeCloseTo(72);
+    expect(position.totalFees).toBe(14);
+  });
+
+  it("starts a new average after the position is closed", () => {
+    const position = computePosition([
+      trade("buy", 10, 20, { traded_at: "2026-01-05" }),
+      trade("sell", 10, 25, { traded_at: "2026-01-06" }),
+      trade("buy", 10, 30, { traded_at: "2026-01-07" }),
+    ]);
+
+    expect(position.quantity).toBe(10);
+    expect(position.averagePrice).toBe(30);
+    expect(position.cost).toBe(300);
+    expect(position.realizedPnl).toBe(50);
+  });
+
+  it("throws OversoldPositionError when selling more than is held", () => {
+    const sell = trade("sell", 11, 10, { traded_at: "2026-01-06" });
+    const replay = () => computePosition([trade("buy", 10, 10, { traded_at: "2026-01-05" }), sell]);
+
+    expect(replay).toThrow(OversoldPositionError);
+    try {
+      replay();
+    } catch (error) {
+      expect(error).toMatchObject({ transactionId: sell.id, available: 10, requested: 11 });
+    }
+  });
+
+  it("orders trades of the same day by creation time", () => {
+    const buy = trade("buy", 10, 10, { created_at: "2026-01-05T10:00:00Z" });
+    const sell = trade("sell", 10, 12, { created_at: "2026-01-05T11:00:00Z" });
+
+    // Listed sell first: replaying in that order would oversell
+    const position = computePosition([sell, buy]);
+
+    expect(position.quantity).toBe(0);
+    expect(position.realizedPnl).toBe(20);
+  });
+
+  it("closes fractional positions despite float noise", () => {
+    const position = computePosition([
+      trade("buy", 0.1, 100, { traded_at: "2026-01-05" }),
+      trade("buy", 0.2, 100, { traded_at: "2026-01-06" }),
+      trade("sell", 0.3, 110, { traded_at: "2026-01-07" }),
+    ]);
+
+    expect(position.quantity).toBe(0);
+    expect(position.averagePrice).toBe(0);
+    expect(position.cost).toBe(0);
+    expect(position.realizedPnl).toBeCloseTo(3);
+  });
+});
+
+describe("summarizePortfolio", () => {
+  it("counts open holdings without a price and leaves them out of the market value", () => {
+    const priced = valueHolding("PETR4", computePosition([trade("buy", 100, 30)]), 35);
+    const unpriced = valueHolding("VALE3", computePosition([trade("buy", 10, 60)]), null);
+    const closed = valueHolding(
+      "ITUB4",
+      computePosition([
+        trade("buy", 10, 25, { traded_at: "2026-01-05" }),
+        trade("sell", 10, 27, { traded_at: "2026-01-06" }),
+      ]),
+      null
+    );
+
+    const totals = summarizePortfolio([priced, unpriced, closed]);
+
+    expect(totals.unpricedHoldings).toBe(1);
+    expect(totals.cost).toBe(3600);
+    expect(totals.marketValue).toBe(3500);
+    expect(totals.unrealizedPnl).toBe(500);
+    expect(totals.realizedPnl).toBe(20);
+    expect(totals.totalPnl).toBe(520);
+  });
+});
@@ -0,0 +1,139 @@
+// Portfolio math, kept free of React and Supabase. Everything is in BRL.
+//
+// Average price follows the B3 / Receita Federal convention:
+// - a buy adds its quantity and its full cost (price × quantity + fees) to
+//   the position, and the average price is total cost ÷ quantity;
+// - a sell does not change the average price; its realized P&L is
+//   (price − average price) × quantity − fees;
+// - once the position is closed, the next buy starts a new average.
+// Day trades are not told apart from swing trades.
+
+export type TransactionType = "buy" | "sell";
+
+export interface Transaction {
+  id: string;
+  type: TransactionType;
+  quantity: number;
+  price: number;
+  fees: number;
+  /** Trade date, `YYYY-MM-DD`. */
+  traded_at: string;
+  /** Orders trades of the same day. */
+  created_at: string;
+}
+
+export interface Position {
+  quantity: number;
+  averagePrice: number;
+  /** Cost of the quantity still held: quantity × average price. */
+  cost: number;
+  realizedPnl: number;
+  /** Fees paid on every trade, buys and sells. */
+  totalFees: number;
+}
+
+export interface HoldingValuation extends Position {
+  symbol: string;
+  /** Null while no price is known. */
+  currentPrice: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  /** Unrealized P&L over cost, in percent. */
+  unrealizedPercent: number | null;
+}
+
+export interface PortfolioTotals {
+  cost: number;
+  /** Only holdings with a known price count. */
+  marketValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+  /** Holdings still open without a current price, left out of the market value. */
+  unpricedHoldings: number;
+}
+
+/** Thrown when a transaction would sell more than the position holds. */
+export class OversoldPositionError extends Error {
+  constructor(public transactionId: string, public available: number, public requested: number) {
+    super(`Venda de ${requested} acima da posição de ${available}`);
+    this.name = "OversoldPositionError";
+  }
+}
+
+// Quantities may be fractional (crypto, fractional shares); this absorbs float noise
+const EPSILON = 1e-9;
+
+const EMPTY_POSITION: Position = { quantity: 0, averagePrice: 0, cost: 0, realizedPnl: 0, totalFees: 0 };
+
+export const byTradeOrder = (a: Transaction, b: Transaction) =>
+  a.traded_at.localeCompare(b.traded_at) || a.created_at.localeCompare(b.created_at);
+
+/** Position after one more trade. */
+export const applyTransaction = (position: Position, transaction: Transaction): Position => {
+  const { quantity, price, fees } = transaction;
+  const totalFees = position.totalFees + fees;
+
+  if (transaction.type === "buy") {
+    const newQuantity = position.quantity + quantity;
+    const cost = position.cost + quantity * price + fees;
+    return {
+      quantity: newQuantity,
+      averagePrice: cost / newQuantity,
+      cost,
+      realizedPnl: position.realizedPnl,
+      totalFees,
+    };
+  }
+
+  if (quantity > position.quantity + EPSILON) {
+    throw new OversoldPositionError(transaction.id, position.quantity, quantity);
+  }
+
+  const remaining = position.quantity - quantity;
+  const closed = remaining <= EPSILON;
+  return {
+    quantity: closed ? 0 : remaining,
+    averagePrice: closed ? 0 : position.averagePrice,
+    cost: closed ? 0 : remaining * position.averagePrice,
+    realizedPnl: position.realizedPnl + (price - position.averagePrice) * quantity - fees,
+    totalFees,
+  };
+};
+
+/** Replays the trades in date order; throws OversoldPositionError on an impossible sell. */
+export const computePosition = (transactions: Transaction[]): Position =>
+  [...transactions].sort(byTradeOrder).reduce(applyTransaction, EMPTY_POSITION);
+
+export const valueHolding = (
+  symbol: string,
+  position: Position,
+  currentPrice: number | null
+): HoldingValuation => {
+  const marketValue = currentPrice === null ? null : position.quantity * currentPrice;
+  const unrealizedPnl = marketValue === null ? null : marketValue - position.cost;
+  return {
+    ...position,
+    symbol,
+    currentPrice,
+    marketValue,
+    unrealizedPnl,
+    unrealizedPercent: unrealizedPnl === null || position.cost === 0
+      ? null
+      : (unrealizedPnl / position.cost) * 100,
+  };
+};
+
+export const summarizePortfolio = (holdings: HoldingValuation[]): PortfolioTotals => {
+  const totals = holdings.reduce(
+    (sum, holding) => ({
+      cost: sum.cost + holding.cost,
+      marketValue: sum.marketValue + (holding.marketValue ?? 0),
+      realizedPnl: sum.realizedPnl + holding.realizedPnl,
+      unrealizedPnl: sum.unrealizedPnl + (holding.unrealizedPnl ?? 0),
+      unpricedHoldings: sum.unpricedHoldings + (holding.quantity > 0 && holding.marketValue === null ? 1 : 0),
+    }),
+    { cost: 0, marketValue: 0, realizedPnl: 0, unrealizedPnl: 0, unpricedHoldings: 0 }
+  );
+  return { ...totals, totalPnl: totals.realizedPnl + totals.unrealizedPnl };
+};
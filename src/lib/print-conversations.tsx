@@ -0,0 +1,27 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import PrintableConversations from "@/components/chat/PrintableConversations";
+import type { ConversationArchive } from "@/lib/conversation-export";
+import type { VersionSelection } from "@/lib/thread";
+
+// "PDF" export: a light, self-contained page printed from a hidden iframe,
+// which the browser's print dialog saves as PDF. The app's dark theme and
+// Tailwind classes are left out on purpose.
+
+/** Opens the print dialog for the archive; the iframe is dropped afterwards. */
+export const printArchive = (archive: ConversationArchive, selection?: VersionSelection) => {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.cssText = "position: fixed; width: 0; height: 0; border: 0;";
+  frame.srcdoc = `<!DOCTYPE html>${renderToStaticMarkup(
+    <PrintableConversations archive={archive} selection={selection} />
+  )}`;
+
+  frame.onload = () => {
+    const printWindow = frame.contentWindow;
+    if (!printWindow) return;
+    printWindow.addEventListener("afterprint", () => frame.remove(), { once: true });
+    printWindow.focus();
+    printWindow.print();
+  };
+  document.body.appendChild(frame);
+};
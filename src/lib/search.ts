@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { MessageRole } from "@/lib/messages";
+
+// Full-text search runs in the database (`search_conversations`), which
+// marks every match in the snippet between these two characters.
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+export interface SearchFilters {
+  /** First day included (local time). */
+  from?: Date;
+  /** Last day included (local time). */
+  to?: Date;
+  role?: MessageRole;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  /** Null when the match is in the conversation title. */
+  messageId: string | null;
+  role: MessageRole | null;
+  snippet: string;
+  createdAt: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const startOfNextDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+export const searchConversations = async (
+  query: string,
+  { from, to, role }: SearchFilters = {}
+): Promise<SearchResult[]> => {
+  const { data, error } = await supabase.rpc("search_conversations", {
+    search_query: query,
+    from_date: from ? startOfDay(from).toISOString() : undefined,
+    to_date: to ? startOfNextDay(to).toISOString() : undefined,
+    message_role: role,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    conversationId: row.conversation_id,
+    conversationTitle: row.conversation_title || "Conversa",
+    messageId: row.message_id,
+    role: row.role as MessageRole | null,
+    snippet: row.snippet,
+    createdAt: row.created_at,
+  }));
+};
+
+/** Splits a snippet into plain and matched parts, in order. */
+export const splitSnippet = (snippet: string): SnippetPart[] =>
+  snippet
+    .split(MATCH_START)
+    .flatMap((chunk, index) => {
+      if (index === 0) return [{ text: chunk, match: false }];
+      const [match, ...rest] = chunk.split(MATCH_END);
+      return [{ text: match, match: true }, { text: rest.join(""), match: false }];
+    })
+    .filter((part) => part.text !== "");
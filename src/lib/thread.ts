@@ -0,0 +1,147 @@
+// Conversations are trees: every message points at the message it follows
+// (`parent_id`), and regenerated answers or edited questions are siblings
+// sharing a parent. The visible thread is one path from the root down.
+
+import type { Message } from "@/lib/messages";
+
+const ROOT = "root";
+
+/**
+ * Chosen child per parent (`parent_id`, or "root" for first messages). The
+ * "root" entry also names the first message of the thread, which may have an
+ * unloaded parent while older pages are still to come.
+ */
+export type VersionSelection = Record<string, string>;
+
+export interface ThreadEntry {
+  message: Message;
+  /** All versions at this position, oldest first (includes `message`). */
+  siblings: Message[];
+  /** Position of `message` within `siblings`. */
+  index: number;
+}
+
+export const parentKey = (message: Pick<Message, "parent_id">) => message.parent_id ?? ROOT;
+
+const byCreatedAt = (a: Message, b: Message) => a.created_at.localeCompare(b.created_at);
+
+// Children per parent key. Messages whose parent is on a page not loaded yet
+// stay under that parent's id: they are versions of each other only when they
+// share it, never of the loaded first messages.
+const groupChildren = (messages: Message[]) => {
+  const children = new Map<string, Message[]>();
+
+  messages.forEach((message) => {
+    const key = parentKey(message);
+    children.set(key, [...(children.get(key) ?? []), message]);
+  });
+
+  children.forEach((list) => list.sort(byCreatedAt));
+  return children;
+};
+
+// First loaded message on the way up from `message`
+const topmostLoaded = (byId: Map<string, Message>, message: Message) => {
+  let current = message;
+  while (current.parent_id && byId.has(current.parent_id)) current = byId.get(current.parent_id)!;
+  return current;
+};
+
+/**
+ * Walks from the start of the thread choosing the selected child at each
+ * step, or the most recent one when nothing was selected there. The thread
+ * starts at the first loaded message on the path to the selected first
+ * message, or to the most recent message: until older pages load, that may
+ * be a message whose parent is not loaded.
+ */
+export const buildThread = (messages: Message[], selection: VersionSelection = {}): ThreadEntry[] => {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const selected = byId.get(selection[ROOT]);
+  const latest = [...messages].sort(byCreatedAt).pop();
+  const anchor = selected ?? latest;
+  if (!anchor) return [];
+
+  // Once older pages load, the selected first message may have gained
+  // ancestors: keep the path through it unless another version was picked
+  const start = topmostLoaded(byId, anchor);
+  const choices = selected ? { ...selectPath(messages, selected.id), ...selection, [ROOT]: start.id } : selection;
+
+  const children = groupChildren(messages);
+  const thread: ThreadEntry[] = [];
+  let key = parentKey(start);
+
+  while (children.has(key)) {
+    const siblings = children.get(key)!;
+    const selectedIndex = siblings.findIndex((message) => message.id === choices[key]);
+    const index = selectedIndex >= 0 ? selectedIndex : siblings.length - 1;
+    const message = siblings[index];
+
+    thread.push({ message, siblings, index });
+    key = message.id;
+  }
+
+  return thread;
+};
+
+/** Messages from the root down to (excluding) `messageId`, in order. */
+export const getAncestors = (messages: Message[], messageId: string): Message[] => {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const ancestors: Message[] = [];
+  let current = byId.get(messageId);
+
+  while (current?.parent_id && byId.has(current.parent_id)) {
+    current = byId.get(current.parent_id)!;
+    ancestors.unshift(current);
+  }
+
+  return ancestors;
+};
+
+/** Next version number for a new child of `parentId`. */
+export const nextVersion = (messages: Message[], parentId: string | null) => {
+  const versions = messages
+    .filter((message) => (message.parent_id ?? null) === parentId)
+    .map((message) => message.version ?? 1);
+  return versions.length > 0 ? Math.max(...versions) + 1 : 1;
+};
+
+/** Selection that makes the thread pass through `messageId`. */
+export const selectPath = (messages: Message[], messageId: string): VersionSelection => {
+  const message = messages.find((candidate) => candidate.id === messageId);
+  if (!message) return {};
+
+  const path = [...getAncestors(messages, messageId), message];
+  const selection: VersionSelection = { [ROOT]: path[0].id };
+  path.forEach((step) => {
+    selection[parentKey(step)] = step.id;
+  });
+  return selection;
+};
+
+export interface Branch {
+  /** Last message of the branch. */
+  leaf: Message;
+  /** Deepest edited or regenerated message on the path, where the branch forked. */
+  fork: Message;
+  length: number;
+}
+
+/** Every path from the root to a leaf, oldest branch first. */
+export const getBranches = (messages: Message[]): Branch[] => {
+  const children = groupChildren(messages);
+  const childCount = new Map<string, number>();
+  children.forEach((list, key) => childCount.set(key, list.length));
+
+  return messages
+    .filter((message) => !children.has(message.id))
+    .sort(byCreatedAt)
+    .map((leaf) => {
+      const path = [...getAncestors(messages, leaf.id), leaf];
+      const forks = path.filter((step) => (childCount.get(parentKey(step)) ?? 0) > 1);
+      return {
+        leaf,
+        fork: forks.length > 0 ? forks[forks.length - 1] : path[0],
+        length: path.length,
+      };
+    });
+};
@@ -0,0 +1,91 @@
+// Assets the app knows by name, for ticker search and labels. B3 tickers
+// outside the catalog are still accepted when they look like one.
+
+export type Market = "b3" | "crypto";
+
+export interface TickerInfo {
+  symbol: string;
+  name: string;
+  market: Market;
+}
+
+export const MARKET_LABELS: Record<Market, string> = {
+  b3: "B3",
+  crypto: "Cripto",
+};
+
+/** B3 ticker: four letters plus the share class (PETR4, BOVA11), optionally fractional (ITUB4F). */
+export const B3_TICKER_PATTERN = /[A-Z]{4}\d{1,2}F?/;
+
+const B3_SYMBOL = new RegExp(`^${B3_TICKER_PATTERN.source}$`);
+const B3_MENTION = new RegExp(`\\b${B3_TICKER_PATTERN.source}\\b`, "g");
+
+export const TICKER_CATALOG: TickerInfo[] = [
+  { symbol: "PETR4", name: "Petrobras PN", market: "b3" },
+  { symbol: "PETR3", name: "Petrobras ON", market: "b3" },
+  { symbol: "VALE3", name: "Vale ON", market: "b3" },
+  { symbol: "ITUB4", name: "Itaú Unibanco PN", market: "b3" },
+  { symbol: "BBDC4", name: "Bradesco PN", market: "b3" },
+  { symbol: "BBAS3", name: "Banco do Brasil ON", market: "b3" },
+  { symbol: "SANB11", name: "Santander Brasil Unit", market: "b3" },
+  { symbol: "BPAC11", name: "BTG Pactual Unit", market: "b3" },
+  { symbol: "B3SA3", name: "B3 ON", market: "b3" },
+  { symbol: "ABEV3", name: "Ambev ON", market: "b3" },
+  { symbol: "WEGE3", name: "WEG ON", market: "b3" },
+  { symbol: "ELET3", name: "Eletrobras ON", market: "b3" },
+  { symbol: "TAEE11", name: "Taesa Unit", market: "b3" },
+  { symbol: "EGIE3", name: "Engie Brasil ON", market: "b3" },
+  { symbol: "SBSP3", name: "Sabesp ON", market: "b3" },
+  { symbol: "SUZB3", name: "Suzano ON", market: "b3" },
+  { symbol: "GGBR4", name: "Gerdau PN", market: "b3" },
+  { symbol: "RENT3", name: "Localiza ON", market: "b3" },
+  { symbol: "LREN3", name: "Lojas Renner ON", market: "b3" },
+  { symbol: "MGLU3", name: "Magazine Luiza ON", market: "b3" },
+  { symbol: "RADL3", name: "Raia Drogasil ON", market: "b3" },
+  { symbol: "PRIO3", name: "PRIO ON", market: "b3" },
+  { symbol: "RAIL3", name: "Rumo ON", market: "b3" },
+  { symbol: "EMBR3", name: "Embraer ON", market: "b3" },
+  { symbol: "JBSS3", name: "JBS ON", market: "b3" },
+  { symbol: "BBSE3", name: "BB Seguridade ON", market: "b3" },
+  { symbol: "CMIG4", name: "Cemig PN", market: "b3" },
+  { symbol: "VIVT3", name: "Telefônica Brasil ON", market: "b3" },
+  { symbol: "BOVA11", name: "iShares Ibovespa", market: "b3" },
+  { symbol: "SMAL11", name: "iShares Small Cap", market: "b3" },
+  { symbol: "IVVB11", name: "iShares S&P 500", market: "b3" },
+  { symbol: "HGLG11", name: "CSHG Logística FII", market: "b3" },
+  { symbol: "KNRI11", name: "Kinea Renda Imobiliária FII", market: "b3" },
+  { symbol: "MXRF11", name: "Maxi Renda FII", market: "b3" },
+  { symbol: "XPML11", name: "XP Malls FII", market: "b3" },
+  { symbol: "BTC", name: "Bitcoin", market: "crypto" },
+  { symbol: "ETH", name: "Ethereum", market: "crypto" },
+  { symbol: "SOL", name: "Solana", market: "crypto" },
+  { symbol: "BNB", name: "BNB", market: "crypto" },
+  { symbol: "XRP", name: "XRP", market: "crypto" },
+  { symbol: "ADA", name: "Cardano", market: "crypto" },
+  { symbol: "DOGE", name: "Dogecoin", market: "crypto" },
+  { symbol: "DOT", name: "Polkadot", market: "crypto" },
+  { symbol: "AVAX", name: "Avalanche", market: "crypto" },
+  { symbol: "LTC", name: "Litecoin", market: "crypto" },
+  { symbol: "LINK", name: "Chainlink", market: "crypto" },
+  { symbol: "MATIC", name: "Polygon", market: "crypto" },
+  { symbol: "USDT", name: "Tether", market: "crypto" },
+  { symbol: "USDC", name: "USD Coin", market: "crypto" },
+];
+
+const CATALOG_BY_SYMBOL = new Map(TICKER_CATALOG.map((ticker) => [ticker.symbol, ticker]));
+
+export const normalizeSymbol = (input: string) => input.trim().toUpperCase();
+
+export const isB3Symbol = (symbol: string) => B3_SYMBOL.test(symbol);
+
+/** B3 tickers written in free text, with where they start, in order of appearance. */
+export const extractB3Tickers = (text: string) =>
+  [...text.matchAll(B3_MENTION)].map((match) => ({ symbol: match[0], index: match.index ?? 0 }));
+
+/** Catalog entry, a bare entry for unknown B3 tickers, or null for anything else. */
+export const findTicker = (input: string): TickerInfo | null => {
+  const symbol = normalizeSymbol(input);
+  const known = CATALOG_BY_SYMBOL.get(symbol);
+  if (known) return known;
+  return isB3Symbol(symbol) ? { symbol, name: symbol, market: "b3" } : null;
+};
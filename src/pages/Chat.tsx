@@ -1,27 +1,58 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/components/ui/use-toast";
-import { Send, Bot, User, Loader2, ArrowLeft, MessageSquare } from "lucide-react";
-import { Session } from "@supabase/supabase-js";
-
-interface Message {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  created_at: string;
-}
+import { Send, Bot, Loader2, ArrowLeft, Square, Share2 } from "lucide-react";
+import { type RealtimePostgresChangesPayload, Session } from "@supabase/supabase-js";
+import { buildAgentContext } from "@/lib/agent-context";
+import { AGENT_JOB_POLL_INTERVAL_MS, isNetworkError, pollAgentJob, requestAgentReply } from "@/lib/agent-client";
+import { generateTitle } from "@/lib/conversation-title";
+import { type Agent, isFallbackAgent, resolveAgent } from "@/lib/agents";
+import { type Message, type MessageStatus, toMessage, upsertMessages } from "@/lib/messages";
+import { enqueueOutbox, getOutbox, isQueued, removeFromOutbox } from "@/lib/outbox";
+import { type Page, type PageCursor, afterCursor, toPage } from "@/lib/pagination";
+import {
+  type VersionSelection,
+  buildThread,
+  getAncestors,
+  getBranches,
+  nextVersion,
+  parentKey,
+  selectPath,
+} from "@/lib/thread";
+import { useAgents } from "@/hooks/use-agents";
+import { useConversationExport } from "@/hooks/use-conversation-export";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import AgentIcon from "@/components/chat/AgentIcon";
+import AgentPicker from "@/components/chat/AgentPicker";
+import BranchPicker from "@/components/chat/BranchPicker";
+import ExportMenu from "@/components/chat/ExportMenu";
+import Markdown from "@/components/chat/Markdown";
+import MessageBubble from "@/components/chat/MessageBubble";
+import ShareDialog from "@/components/chat/ShareDialog";
+
+const MESSAGE_PAGE_SIZE = 50;
+
+type MessageRow = Tables<'messages'>;
+
+const toLoadedMessage = (row: MessageRow): Message => {
+  const message = toMessage(row);
+  // A pending message nobody is delivering anymore (tab closed mid-request) failed
+  if (message.status === 'pending' && !isQueued(message.id)) {
+    return { ...message, status: 'failed' };
+  }
+  return message;
+};
 
-interface DatabaseMessage {
-  id: string;
-  content: string;
-  role: string;
-  created_at: string;
-  conversation_id: string;
-}
+// Pages are fetched newest first; the cursor points past the oldest row
+const olderPageCursor = ({ items, hasMore }: Page<MessageRow>): PageCursor | null => {
+  const oldest = items[items.length - 1];
+  return hasMore && oldest ? { value: oldest.created_at, id: oldest.id } : null;
+};
 
 interface Conversation {
   id: string;
@@ -34,12 +65,40 @@ const Chat = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentMessage, setCurrentMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingContent, setStreamingContent] = useState("");
+  const [selection, setSelection] = useState<VersionSelection>({});
   const [currentConversation, setCurrentConversation] = useState<string | null>(null);
   const [conversationTitle, setConversationTitle] = useState<string>("");
+  const [conversationAgentId, setConversationAgentId] = useState<string | null>(null);
+  const { agents } = useAgents();
+  const { exportConversations, isExporting } = useConversationExport();
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const agent = resolveAgent(agents, conversationAgentId);
+  const [loadedConversation, setLoadedConversation] = useState<string | null>(null);
+  // Message opened from a search result: shown, highlighted and scrolled to
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // Only the latest page of messages loads up front; older ones on scroll up
+  const [olderMessagesCursor, setOlderMessagesCursor] = useState<PageCursor | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  // Latest thread and outbox flusher, for listeners registered once
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
+  const flushOutboxRef = useRef<() => Promise<void>>();
+  const isFlushingRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const thread = buildThread(messages, selection);
+  const branches = getBranches(messages);
+  // The agent is still working on the last answer (asynchronous job)
+  const awaitingReply = thread[thread.length - 1]?.message.status === 'processing';
+  const processingIds = messages
+    .filter(message => message.status === 'processing')
+    .map(message => message.id)
+    .join(',');
 
   useEffect(() => {
     // Get initial session
@@ -64,14 +123,229 @@ const Chat = () => {
   }, [session]);
 
   useEffect(() => {
-    // Scroll to bottom when new messages are added
-    if (scrollAreaRef.current) {
-      const scrollContainer = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]');
+    if (!loadedConversation) return;
+
+    const handleOnline = () => flushOutboxRef.current?.();
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [loadedConversation]);
+
+  // Messages and conversation changes made elsewhere: other tabs and devices,
+  // or replies written straight to the database by the agent
+  useEffect(() => {
+    if (!loadedConversation) return;
+
+    const handleMessageChange = (payload: RealtimePostgresChangesPayload<Tables<'messages'>>) => {
+      if (payload.eventType === 'DELETE') return;
+      setMessages(prev => upsertMessages(prev, [toMessage(payload.new)]));
+    };
+
+    // e.g. a reply agent-proxy saved and then dropped because Stop came in
+    // meanwhile. Unfiltered, like conversation deletes: ids of other
+    // conversations' messages are simply not found.
+    const handleMessageDelete = (payload: RealtimePostgresChangesPayload<Tables<'messages'>>) => {
+      if (payload.eventType !== 'DELETE' || !payload.old.id) return;
+      setMessages(prev => prev.filter(message => message.id !== payload.old.id));
+    };
+
+    const handleConversationChange = (payload: RealtimePostgresChangesPayload<Tables<'conversations'>>) => {
+      if (payload.eventType !== 'UPDATE') return;
+      setConversationTitle(payload.new.title || 'Conversa');
+      setConversationAgentId(payload.new.agent_id);
+    };
+
+    // Delete events cannot be filtered and only carry the primary key
+    const handleConversationDelete = (payload: RealtimePostgresChangesPayload<Tables<'conversations'>>) => {
+      if (payload.eventType !== 'DELETE' || payload.old.id !== loadedConversation) return;
+      toast({ title: "Conversa excluída", description: "Esta conversa foi excluída em outro dispositivo" });
+      navigate('/chat-history');
+    };
+
+    const channel = supabase
+      .channel(`chat:${loadedConversation}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'messages',
+        filter: `conversation_id=eq.${loadedConversation}`,
+      }, handleMessageChange)
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'messages',
+      }, handleMessageDelete)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'conversations',
+        filter: `id=eq.${loadedConversation}`,
+      }, handleConversationChange)
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'conversations',
+      }, handleConversationDelete)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadedConversation, navigate, toast]);
+
+  // Replies an agent is still processing: realtime usually brings them, and
+  // polling covers missed events and agents that only expose a status URL
+  useEffect(() => {
+    if (!processingIds) return;
+
+    const interval = setInterval(async () => {
+      for (const id of processingIds.split(',')) {
+        try {
+          const row = await pollAgentJob(id);
+          if (row) setMessages(prev => upsertMessages(prev, [toMessage(row)]));
+        } catch (error) {
+          console.error('Erro ao consultar análise em andamento:', error);
+        }
+      }
+    }, AGENT_JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [processingIds]);
+
+  const getScrollViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]');
+
+  // Runs before paint, so neither jump below is ever visible
+  useLayoutEffect(() => {
+    const scrollContainer = getScrollViewport();
+    if (!scrollContainer) return;
+
+    // Older messages were added above: keep the same ones on screen
+    const anchor = scrollAnchorRef.current;
+    if (anchor) {
+      scrollAnchorRef.current = null;
+      scrollContainer.scrollTop = anchor.top + scrollContainer.scrollHeight - anchor.height;
+      return;
+    }
+
+    // Scroll to bottom when new messages are added, unless showing a search hit
+    if (focusedMessageId) return;
+    scrollContainer.scrollTop = scrollContainer.scrollHeight;
+  }, [messages, streamingContent, focusedMessageId]);
+
+  useEffect(() => {
+    if (!focusedMessageId || !loadedConversation) return;
+    scrollAreaRef.current
+      ?.querySelector(`[data-message-id="${focusedMessageId}"]`)
+      ?.scrollIntoView({ block: 'center' });
+  }, [focusedMessageId, loadedConversation]);
+
+  const fetchMessagePage = async (conversationId: string, cursor?: PageCursor) => {
+    let query = supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId);
+    if (cursor) query = query.or(afterCursor('created_at', cursor));
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE + 1);
+
+    if (error) throw error;
+    return toPage(data, MESSAGE_PAGE_SIZE);
+  };
+
+  // Everything from a search hit onwards, for hits older than the latest page
+  const fetchMessagesFrom = async (conversationId: string, messageId: string) => {
+    const { data: target } = await supabase
+      .from('messages')
+      .select('created_at')
+      .eq('id', messageId)
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+    if (!target) return null;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .gte('created_at', target.created_at)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error) throw error;
+    // Whether anything older exists is found out by scrolling up
+    return { items: data || [], hasMore: true };
+  };
+
+  const loadMessages = async (conversationId: string) => {
+    const targetId = searchParams.get('message');
+    let page = await fetchMessagePage(conversationId);
+    if (targetId && !page.items.some(row => row.id === targetId)) {
+      page = await fetchMessagesFrom(conversationId, targetId) ?? page;
+    }
+
+    const loaded = page.items.map(toLoadedMessage).reverse();
+    setOlderMessagesCursor(olderPageCursor(page));
+
+    // Messages still waiting in the outbox never reached the database
+    const queued = getOutbox(conversationId)
+      .filter(entry => !loaded.some(message => message.id === entry.id))
+      .map(entry => ({ ...entry, role: 'user' as const, status: 'pending' as const }));
+
+    const all = [...loaded, ...queued];
+    const target = targetId && all.some(message => message.id === targetId) ? targetId : null;
+
+    // A search hit may sit on a branch other than the latest one
+    setSelection(target ? selectPath(all, target) : {});
+    setFocusedMessageId(target);
+
+    setMessages(all);
+    setLoadedConversation(conversationId);
+
+    // A question prepared elsewhere (e.g. from a watchlist) waits in the composer
+    const prompt = searchParams.get('prompt');
+    if (prompt) setCurrentMessage(prompt);
+  };
+
+  const loadOlderMessages = async () => {
+    if (!loadedConversation || !olderMessagesCursor || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(loadedConversation, olderMessagesCursor);
+      const scrollContainer = getScrollViewport();
       if (scrollContainer) {
-        scrollContainer.scrollTop = scrollContainer.scrollHeight;
+        scrollAnchorRef.current = { height: scrollContainer.scrollHeight, top: scrollContainer.scrollTop };
       }
+
+      setMessages(prev => [
+        ...page.items
+          .filter(row => !prev.some(message => message.id === row.id))
+          .map(toLoadedMessage)
+          .reverse(),
+        ...prev,
+      ]);
+      setOlderMessagesCursor(olderPageCursor(page));
+    } catch (error) {
+      console.error('Erro ao carregar mensagens anteriores:', error);
+      // Stop asking; the observer would otherwise retry right away
+      setOlderMessagesCursor(null);
+      toast({
+        title: "Erro",
+        description: "Não foi possível carregar mensagens anteriores",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingOlder(false);
     }
-  }, [messages]);
+  };
+
+  const loadOlderRef = useInfiniteScroll<HTMLDivElement>(
+    loadOlderMessages,
+    Boolean(olderMessagesCursor) && !isLoadingOlder
+  );
 
   const createOrLoadConversation = async () => {
     if (!session?.user) return;
@@ -83,7 +357,7 @@ const Chat = () => {
         // Load specific conversation from URL
         const { data: conversation, error: convError } = await supabase
           .from('conversations')
-          .select('id, title')
+          .select('id, title, agent_id')
           .eq('id', conversationIdFromUrl)
           .eq('user_id', session.user.id)
           .single();
@@ -92,27 +366,18 @@ const Chat = () => {
         
         setCurrentConversation(conversationIdFromUrl);
         setConversationTitle(conversation.title || 'Conversa');
+        setConversationAgentId(conversation.agent_id);
         
-        // Load messages for this conversation
-        const { data: messages, error: messagesError } = await supabase
-          .from('messages')
-          .select('*')
-          .eq('conversation_id', conversationIdFromUrl)
-          .order('created_at', { ascending: true });
-
-        if (messagesError) throw messagesError;
-        setMessages((messages || []).map(msg => ({
-          ...msg,
-          role: msg.role as 'user' | 'assistant'
-        })));
+        await loadMessages(conversationIdFromUrl);
         
         return;
       }
-      // Try to get the most recent conversation
+      // Try to get the most recent conversation that is not archived
       const { data: conversations, error: fetchError } = await supabase
         .from('conversations')
-        .select('id, title, created_at')
+        .select('id, title, created_at, agent_id')
         .eq('user_id', session.user.id)
+        .is('archived_at', null)
         .order('updated_at', { ascending: false })
         .limit(1);
 
@@ -127,19 +392,9 @@ const Chat = () => {
         title = conversations[0].title || 'Conversa';
         setCurrentConversation(conversationId);
         setConversationTitle(title);
+        setConversationAgentId(conversations[0].agent_id);
         
-        // Load messages for this conversation
-        const { data: messages, error: messagesError } = await supabase
-          .from('messages')
-          .select('*')
-          .eq('conversation_id', conversationId)
-          .order('created_at', { ascending: true });
-
-        if (messagesError) throw messagesError;
-        setMessages((messages || []).map(msg => ({
-          ...msg,
-          role: msg.role as 'user' | 'assistant'
-        })));
+        await loadMessages(conversationId);
       } else {
         // Redirect to chat history if no conversations exist
         navigate('/chat-history');
@@ -156,117 +411,296 @@ const Chat = () => {
     }
   };
 
-  const sendMessage = async () => {
-    if (!currentMessage.trim() || !currentConversation || !session?.user) return;
+  const setMessageStatus = (messageId: string, status: MessageStatus) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId ? { ...message, status } : message
+    ));
+  };
+
+  const saveMessageStatus = async (messageId: string, status: MessageStatus) => {
+    setMessageStatus(messageId, status);
+    const { error } = await supabase
+      .from('messages')
+      .update({ status })
+      .eq('id', messageId);
+    if (error) console.error('Erro ao atualizar status da mensagem:', error);
+  };
 
-    const userMessage = currentMessage.trim();
-    setCurrentMessage("");
+  /**
+   * Sends a user message through the agent proxy, which saves it along with
+   * the reply (the next version under it). `history` is the thread before
+   * the message. Network failures park the message in the outbox; other
+   * failures mark it as failed. Regenerating leaves the question untouched.
+   */
+  const deliverMessage = async (
+    userMessage: Message,
+    history: Message[],
+    { regenerate = false }: { regenerate?: boolean } = {}
+  ) => {
+    if (!currentConversation || !session?.user) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let partialContent = "";
+
+    setFocusedMessageId(null);
     setIsLoading(true);
+    if (!regenerate) setMessageStatus(userMessage.id, 'pending');
 
     try {
-      // Add user message to database
-      const { data: userMessageData, error: userError } = await supabase
-        .from('messages')
-        .insert({
+      const { userMessage: savedUserMessage, assistantMessage } = await requestAgentReply({
+        conversation_id: currentConversation,
+        message: {
+          id: userMessage.id,
+          content: userMessage.content,
+          parent_id: userMessage.parent_id ?? null,
+        },
+        regenerate,
+        context: buildAgentContext(history),
+      }, {
+        // The proxy has saved the user message by the time the reply starts
+        onAccepted: () => {
+          if (regenerate) return;
+          removeFromOutbox(userMessage.id);
+          setMessageStatus(userMessage.id, 'sent');
+        },
+        // Render the reply as it streams in; the proxy saves it once complete
+        onUpdate: (content) => {
+          partialContent = content;
+          setStreamingContent(content);
+        },
+        signal: controller.signal,
+      });
+
+      // Add AI response to local state and show it in place of earlier versions;
+      // realtime may have delivered either row already
+      setMessages(prev => upsertMessages(prev, [
+        ...(savedUserMessage ? [toMessage(savedUserMessage)] : []),
+        toMessage(assistantMessage),
+      ]));
+      setSelection(prev => ({ ...prev, [userMessage.id]: assistantMessage.id }));
+      setStreamingContent("");
+
+      // The first exchange names the conversation
+      if (!regenerate && !userMessage.parent_id) {
+        await applyGeneratedTitle(userMessage.content, assistantMessage.content);
+      }
+
+    } catch (error) {
+      if (controller.signal.aborted && controller.signal.reason?.name === 'AbortError') {
+        await saveInterruptedReply(userMessage, partialContent, regenerate);
+      } else if (!regenerate && isNetworkError(error)) {
+        enqueueOutbox({
+          id: userMessage.id,
           conversation_id: currentConversation,
-          content: userMessage,
-          role: 'user'
-        })
-        .select()
-        .single();
-
-      if (userError) throw userError;
-
-      // Add user message to local state
-      setMessages(prev => [...prev, {
-        ...userMessageData,
-        role: userMessageData.role as 'user' | 'assistant'
-      }]);
-
-      // Send message to webhook
-      console.log('Enviando mensagem para webhook:', userMessage);
-      
-      // Test webhook connectivity first
-      try {
-        const testResponse = await fetch('https://n8n.automabot.net.br/webhook/trader', {
-          method: 'HEAD',
-          mode: 'no-cors'
+          content: userMessage.content,
+          created_at: userMessage.created_at,
+          parent_id: userMessage.parent_id ?? null,
+          version: userMessage.version ?? 1,
+        });
+        setMessageStatus(userMessage.id, 'pending');
+        toast({
+          title: "Sem conexão",
+          description: "A mensagem será reenviada quando a conexão voltar",
         });
-        console.log('Teste de conectividade webhook concluído');
-      } catch (testError) {
-        console.warn('Webhook pode estar inacessível:', testError);
+      } else {
+        if (!regenerate) await saveMessageStatus(userMessage.id, 'failed');
+        toast({
+          title: "Erro",
+          description: error instanceof Error && error.message
+            ? error.message
+            : "Não foi possível enviar a mensagem",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setStreamingContent("");
       }
+    }
+  };
 
-      const response = await fetch('https://n8n.automabot.net.br/webhook/trader', {
-        method: 'POST',
-        mode: 'cors',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'text/plain, application/json',
-        },
-        body: JSON.stringify({
-          message: userMessage,
-          user_id: session.user.id,
-          conversation_id: currentConversation
-        }),
-        signal: AbortSignal.timeout(30000) // 30 second timeout
+  /** Replaces the default title; titles set by hand or generated before stay. */
+  const applyGeneratedTitle = async (question: string, answer: string) => {
+    const title = generateTitle(question, answer);
+    if (!title) return;
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .update({ title, title_source: 'auto' })
+      .eq('id', currentConversation)
+      .eq('title_source', 'default')
+      .select('title');
+
+    if (error) {
+      console.error('Erro ao gerar título da conversa:', error);
+      return;
+    }
+    if (data && data.length > 0) setConversationTitle(data[0].title);
+  };
+
+  /** Keeps whatever the agent streamed before the user pressed Stop. */
+  const saveInterruptedReply = async (
+    userMessage: Message,
+    partialContent: string,
+    regenerate: boolean
+  ) => {
+    if (!partialContent.trim()) {
+      if (!regenerate) await saveMessageStatus(userMessage.id, 'failed');
+      return;
+    }
+
+    const interrupted: Message = {
+      id: crypto.randomUUID(),
+      content: partialContent,
+      role: 'assistant',
+      created_at: new Date().toISOString(),
+      status: 'interrupted',
+      parent_id: userMessage.id,
+      version: nextVersion(messagesRef.current, userMessage.id),
+    };
+    setMessages(prev => [...prev, interrupted]);
+    setSelection(prev => ({ ...prev, [userMessage.id]: interrupted.id }));
+
+    const { error } = await supabase
+      .from('messages')
+      .insert({
+        id: interrupted.id,
+        conversation_id: currentConversation,
+        content: interrupted.content,
+        role: 'assistant',
+        created_at: interrupted.created_at,
+        status: 'interrupted',
+        parent_id: interrupted.parent_id,
+        version: interrupted.version
       });
 
-      console.log('Resposta do webhook status:', response.status);
-      console.log('Resposta do webhook headers:', response.headers);
+    if (error) console.error('Erro ao salvar resposta interrompida:', error);
+    if (!regenerate) await saveMessageStatus(userMessage.id, 'answered');
+  };
 
-      if (!response.ok) {
-        console.error('Erro na resposta do webhook:', response.status, response.statusText);
-        const errorText = await response.text().catch(() => 'Sem detalhes do erro');
-        console.error('Detalhes do erro:', errorText);
-        throw new Error(`Webhook retornou status ${response.status}: ${errorText || response.statusText}`);
-      }
+  // Frees the composer right away; deliverMessage saves the partial reply
+  const stopGeneration = () => {
+    const controller = abortControllerRef.current;
+    if (!controller) return;
 
-      const aiResponse = await response.text();
-      console.log('Resposta da IA recebida:', aiResponse);
+    abortControllerRef.current = null;
+    controller.abort(new DOMException('Resposta interrompida pelo usuário', 'AbortError'));
+    setIsLoading(false);
+    setStreamingContent("");
+  };
 
-      if (!aiResponse || aiResponse.trim() === '') {
-        throw new Error('Resposta vazia do agente IA');
-      }
+  const sendMessage = async (text: string = currentMessage) => {
+    if (!text.trim() || !currentConversation || !session?.user || awaitingReply) return;
+
+    // History is the visible thread, which the new message continues
+    const history = thread.map(entry => entry.message);
+    const parentId = history.length > 0 ? history[history.length - 1].id : null;
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      content: text.trim(),
+      role: 'user',
+      created_at: new Date().toISOString(),
+      status: 'pending',
+      parent_id: parentId,
+      version: nextVersion(messages, parentId),
+    };
+    // Action buttons send their own prompt and leave the draft alone
+    if (text === currentMessage) setCurrentMessage("");
+    setMessages(prev => [...prev, userMessage]);
+
+    if (!navigator.onLine) {
+      enqueueOutbox({
+        id: userMessage.id,
+        conversation_id: currentConversation,
+        content: userMessage.content,
+        created_at: userMessage.created_at,
+        parent_id: userMessage.parent_id,
+        version: userMessage.version,
+      });
+      return;
+    }
 
-      // Add AI response to database
-      const { data: aiMessageData, error: aiError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: currentConversation,
-          content: aiResponse,
-          role: 'assistant'
-        })
-        .select()
-        .single();
-
-      if (aiError) {
-        console.error('Erro ao salvar resposta da IA:', aiError);
-        throw aiError;
+    await deliverMessage(userMessage, history);
+  };
+
+  const retryMessage = async (message: Message) => {
+    await deliverMessage(message, getAncestors(messages, message.id));
+  };
+
+  // Asks again the question an answer replied to; the new answer becomes a sibling version
+  const regenerateMessage = async (message: Message) => {
+    const question = messages.find(candidate => candidate.id === message.parent_id);
+    if (!question || question.role !== 'user') return;
+
+    await deliverMessage(question, getAncestors(messages, question.id), { regenerate: true });
+  };
+
+  // Sends the edited text as a sibling of the original, starting a new branch from there
+  const editMessage = async (message: Message, content: string) => {
+    if (!currentConversation || !session?.user) return;
+
+    const edited: Message = {
+      id: crypto.randomUUID(),
+      content,
+      role: 'user',
+      created_at: new Date().toISOString(),
+      status: 'pending',
+      parent_id: message.parent_id ?? null,
+      version: nextVersion(messages, message.parent_id ?? null),
+    };
+    setMessages(prev => [...prev, edited]);
+    setSelection(prev => ({ ...prev, [parentKey(message)]: edited.id }));
+
+    await deliverMessage(edited, getAncestors(messages, message.id));
+  };
+
+  const selectVersion = (message: Message) => {
+    setSelection(prev => ({ ...prev, [parentKey(message)]: message.id }));
+  };
+
+  // Resend queued messages in order; stops at the first one that is still offline
+  const flushOutbox = async () => {
+    if (!currentConversation || isFlushingRef.current || !navigator.onLine) return;
+
+    isFlushingRef.current = true;
+    try {
+      for (const entry of getOutbox(currentConversation)) {
+        const loaded = messagesRef.current;
+        const message: Message = loaded.find(candidate => candidate.id === entry.id)
+          ?? { ...entry, role: 'user', status: 'pending' };
+
+        await deliverMessage(message, getAncestors(loaded, entry.id));
+        if (isQueued(entry.id)) break;
       }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  };
+  flushOutboxRef.current = flushOutbox;
 
-      console.log('Resposta da IA salva no banco:', aiMessageData);
+  const changeAgent = async (nextAgent: Agent) => {
+    if (!currentConversation || nextAgent.id === agent.id) return;
 
-      // Add AI response to local state
-      setMessages(prev => [...prev, {
-        ...aiMessageData,
-        role: aiMessageData.role as 'user' | 'assistant'
-      }]);
+    const previousAgentId = conversationAgentId;
+    setConversationAgentId(nextAgent.id);
 
-      // Update conversation timestamp
-      await supabase
-        .from('conversations')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', currentConversation);
+    // The built-in fallback agent has no registry row to point at
+    const { error } = await supabase
+      .from('conversations')
+      .update({ agent_id: isFallbackAgent(nextAgent) ? null : nextAgent.id })
+      .eq('id', currentConversation);
 
-    } catch (error: any) {
+    if (error) {
+      console.error('Erro ao trocar de agente:', error);
+      setConversationAgentId(previousAgentId);
       toast({
         title: "Erro",
-        description: error.message || "Não foi possível enviar a mensagem",
+        description: "Não foi possível trocar de agente",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -306,23 +740,67 @@ const Chat = () => {
             <ArrowLeft className="w-5 h-5" />
           </Button>
           <div className="w-10 h-10 rounded-lg trading-gradient flex items-center justify-center">
-            <Bot className="w-5 h-5 text-primary-foreground" />
+            <AgentIcon icon={agent.icon} className="w-5 h-5 text-primary-foreground" />
           </div>
           <div>
             <h1 className="font-semibold text-foreground">{conversationTitle}</h1>
-            <p className="text-sm text-muted-foreground">Agente Trader</p>
+            <AgentPicker
+              agents={agents}
+              value={agent}
+              onChange={changeAgent}
+              disabled={isLoading}
+            />
           </div>
+          <div className="flex-1" />
+          <BranchPicker
+            branches={branches}
+            currentLeafId={thread[thread.length - 1]?.message.id}
+            onSelect={(branch) => setSelection(selectPath(messages, branch.leaf.id))}
+            disabled={isLoading}
+          />
+          {/* Markdown and PDF follow the branch on screen */}
+          <ExportMenu
+            onExport={(format) => currentConversation && exportConversations([currentConversation], format, selection)}
+            isExporting={isExporting}
+            disabled={!loadedConversation}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIsShareOpen(true)}
+            disabled={!loadedConversation}
+            title="Compartilhar conversa"
+            aria-label="Compartilhar conversa"
+          >
+            <Share2 className="w-4 h-4" />
+          </Button>
         </div>
       </div>
 
+      {session?.user && loadedConversation && (
+        <ShareDialog
+          open={isShareOpen}
+          onOpenChange={setIsShareOpen}
+          userId={session.user.id}
+          conversationId={loadedConversation}
+        />
+      )}
+
       {/* Messages Area */}
       <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
         <div className="space-y-4 max-w-3xl mx-auto">
+          <div ref={loadOlderRef} />
+          {isLoadingOlder && (
+            <div className="flex justify-center">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          )}
+
           {messages.length === 0 && (
             <div className="text-center py-12 space-y-4">
               <Bot className="w-16 h-16 text-primary mx-auto opacity-50" />
               <div>
-                <h3 className="text-lg font-semibold text-foreground">Bem-vindo ao Agente Trader!</h3>
+                <h3 className="text-lg font-semibold text-foreground">Bem-vindo ao {agent.name}!</h3>
                 <p className="text-muted-foreground">
                   Comece uma conversa sobre investimentos, análises de mercado ou estratégias financeiras.
                 </p>
@@ -330,51 +808,41 @@ const Chat = () => {
             </div>
           )}
           
-          {messages.map((message) => (
-            <div key={message.id} className={`flex items-start space-x-3 ${
-              message.role === 'user' ? 'flex-row-reverse space-x-reverse' : ''
-            }`}>
-              <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
-                message.role === 'user' 
-                  ? 'bg-primary text-primary-foreground' 
-                  : 'trading-gradient text-primary-foreground'
-              }`}>
-                {message.role === 'user' ? (
-                  <User className="w-4 h-4" />
-                ) : (
-                  <Bot className="w-4 h-4" />
-                )}
-              </div>
-              
-              <div className={`max-w-[80%] rounded-2xl p-4 animate-slide-up ${
-                message.role === 'user'
-                  ? 'bg-primary text-primary-foreground'
-                  : 'trading-card border border-border/50'
-              }`}>
-                <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                  {message.content}
-                </p>
-                <span className="text-xs opacity-70 mt-2 block">
-                  {new Date(message.created_at).toLocaleTimeString('pt-BR', { 
-                    hour: '2-digit', 
-                    minute: '2-digit' 
-                  })}
-                </span>
-              </div>
-            </div>
+          {thread.map(({ message, siblings, index }) => (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              highlighted={message.id === focusedMessageId}
+              versions={siblings}
+              versionIndex={index}
+              onSelectVersion={selectVersion}
+              onRetry={() => message.role === 'user' ? retryMessage(message) : regenerateMessage(message)}
+              onRegenerate={message.status === 'processing' ? undefined : () => regenerateMessage(message)}
+              onEdit={(content) => editMessage(message, content)}
+              onAction={(prompt) => sendMessage(prompt)}
+              disabled={isLoading}
+            />
           ))}
           
           {isLoading && (
             <div className="flex items-start space-x-3">
-              <div className="w-8 h-8 rounded-full trading-gradient flex items-center justify-center">
+              <div className="w-8 h-8 rounded-full trading-gradient flex items-center justify-center flex-shrink-0">
                 <Bot className="w-4 h-4 text-primary-foreground" />
               </div>
-              <div className="trading-card border border-border/50 rounded-2xl p-4">
-                <div className="flex items-center space-x-2">
-                  <Loader2 className="w-4 h-4 animate-spin text-primary" />
-                  <span className="text-sm text-muted-foreground">Pensando...</span>
+              {/* Structured (JSON) replies only make sense once complete */}
+              {streamingContent && !streamingContent.trimStart().startsWith('{') ? (
+                <div className="max-w-[80%] trading-card border border-border/50 rounded-2xl p-4">
+                  <Markdown content={streamingContent} />
+                  <span className="inline-block w-2 h-4 mt-1 bg-primary animate-pulse" />
                 </div>
-              </div>
+              ) : (
+                <div className="trading-card border border-border/50 rounded-2xl p-4">
+                  <div className="flex items-center space-x-2">
+                    <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                    <span className="text-sm text-muted-foreground">Pensando...</span>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -388,18 +856,32 @@ const Chat = () => {
               value={currentMessage}
               onChange={(e) => setCurrentMessage(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Digite sua mensagem sobre investimentos..."
+              placeholder={awaitingReply
+                ? "Aguardando a análise do agente..."
+                : "Digite sua mensagem sobre investimentos..."}
               className="bg-input border-border/50 focus:border-primary resize-none"
-              disabled={isLoading}
+              disabled={isLoading || awaitingReply}
             />
           </div>
-          <Button
-            onClick={sendMessage}
-            disabled={!currentMessage.trim() || isLoading}
-            className="trading-gradient text-primary-foreground hover:opacity-90 smooth-transition h-10 w-10 p-0"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={stopGeneration}
+              variant="secondary"
+              className="h-10 w-10 p-0"
+              title="Parar resposta"
+              aria-label="Parar resposta"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={() => sendMessage()}
+              disabled={!currentMessage.trim() || awaitingReply}
+              className="trading-gradient text-primary-foreground hover:opacity-90 smooth-transition h-10 w-10 p-0"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -1,25 +1,78 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
-import { MessageSquare, Plus, User, Settings, LogOut, Loader2 } from "lucide-react";
-import { Session } from "@supabase/supabase-js";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { MessageSquare, Plus, User, Settings, LogOut, Loader2, Search, Archive, Upload, Link2, Star, Wallet } from "lucide-react";
+import { type RealtimePostgresChangesPayload, Session } from "@supabase/supabase-js";
+import type { DateRange } from "react-day-picker";
 import { useToast } from "@/components/ui/use-toast";
+import type { Tables } from "@/integrations/supabase/types";
+import type { TitleSource } from "@/lib/conversation-title";
+import type { ExportFormat } from "@/lib/conversation-export";
+import type { MessageRole } from "@/lib/messages";
+import { type PageCursor, afterCursor, toPage } from "@/lib/pagination";
+import { type SearchResult, searchConversations } from "@/lib/search";
+import ConversationCard, { type ConversationSummary } from "@/components/chat/ConversationCard";
+import DateRangeFilter from "@/components/chat/DateRangeFilter";
+import ExportMenu from "@/components/chat/ExportMenu";
+import ImportDialog from "@/components/chat/ImportDialog";
+import SearchResults from "@/components/chat/SearchResults";
+import ShareDialog from "@/components/chat/ShareDialog";
+import { useConversationExport } from "@/hooks/use-conversation-export";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 
-interface Conversation {
-  id: string;
-  title: string;
-  created_at: string;
-  updated_at: string;
-}
+const PAGE_SIZE = 20;
+// Cards come with their preview and stats from the `conversation_summaries` view
+const CONVERSATION_COLUMNS = `id, title, created_at, updated_at, pinned_at, archived_at,
+  agent_name, agent_icon, last_message_content, last_message_role, message_count, tickers`;
+
+type HistoryView = "active" | "archived";
+
+type ConversationChanges = Partial<Pick<ConversationSummary, "title" | "pinned_at" | "archived_at">> & {
+  title_source?: TitleSource;
+};
+
+// Pinned first (most recently pinned on top), then by latest activity
+const byPinThenActivity = (a: ConversationSummary, b: ConversationSummary) =>
+  (b.pinned_at ?? "").localeCompare(a.pinned_at ?? "") ||
+  b.updated_at.localeCompare(a.updated_at);
+
+const fetchCounts = async (userId: string): Promise<Record<HistoryView, number>> => {
+  const countQuery = () => supabase
+    .from('conversations')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  const [active, archived] = await Promise.all([
+    countQuery().is('archived_at', null),
+    countQuery().not('archived_at', 'is', null),
+  ]);
+  return { active: active.count ?? 0, archived: archived.count ?? 0 };
+};
 
 const ChatHistory = () => {
   const [session, setSession] = useState<Session | null>(null);
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<HistoryView>("active");
+  const [counts, setCounts] = useState<Record<HistoryView, number>>({ active: 0, archived: 0 });
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  const [loadingPage, setLoadingPage] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isSharesOpen, setIsSharesOpen] = useState(false);
+  // Bumped whenever the list restarts, so pages of an earlier view are dropped
+  const listVersionRef = useRef(0);
+  // Read by the realtime handlers, which outlive a render
+  const nextCursorRef = useRef<PageCursor | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [roleFilter, setRoleFilter] = useState<MessageRole | "all">("all");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const { exportConversations, isExporting } = useConversationExport();
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -45,24 +98,180 @@ const ChatHistory = () => {
 
   useEffect(() => {
     if (session) {
+      loadCounts();
       loadConversations();
     }
+  }, [session, view]);
+
+  useEffect(() => {
+    nextCursorRef.current = nextCursor;
+  }, [nextCursor]);
+
+  // Conversations created, renamed, archived or answered elsewhere show up
+  // here right away; the sort moves them to their new position
+  useEffect(() => {
+    const userId = session?.user.id;
+    if (!userId) return;
+
+    const refreshConversation = async (id: string) => {
+      const { data, error } = await supabase
+        .from('conversation_summaries')
+        .select(CONVERSATION_COLUMNS)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Erro ao atualizar conversa:', error);
+        return;
+      }
+      if (!data) return;
+
+      setConversations(prev => {
+        if (prev.some(item => item.id === data.id)) {
+          return prev.map(item => item.id === data.id ? data : item);
+        }
+        // Older than the loaded pages: it will arrive with the next page
+        const cursor = nextCursorRef.current;
+        const belongsToLoaded = !cursor || Boolean(data.pinned_at) || data.updated_at > cursor.value;
+        return belongsToLoaded ? [...prev, data] : prev;
+      });
+    };
+
+    const handleChange = (payload: RealtimePostgresChangesPayload<Tables<'conversations'>>) => {
+      if (payload.eventType === 'DELETE') {
+        setConversations(prev => prev.filter(item => item.id !== payload.old.id));
+      } else {
+        refreshConversation(payload.new.id);
+      }
+      fetchCounts(userId).then(setCounts);
+    };
+
+    const channel = supabase
+      .channel(`history:${userId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'conversations',
+        filter: `user_id=eq.${userId}`,
+      }, handleChange)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'conversations',
+        filter: `user_id=eq.${userId}`,
+      }, handleChange)
+      // Delete events cannot be filtered; ids of unknown rows are ignored
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'conversations',
+      }, handleChange)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [session]);
 
-  const loadConversations = async () => {
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!session || !query) {
+      setSearchResults(null);
+      setSearching(false);
+      return;
+    }
+
+    // Wait for the user to stop typing; a newer search discards this one
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await searchConversations(query, {
+          from: dateRange?.from,
+          to: dateRange?.to ?? dateRange?.from,
+          role: roleFilter === 'all' ? undefined : roleFilter,
+        });
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error('Erro ao buscar conversas:', error);
+        if (!cancelled) {
+          toast({
+            title: "Erro",
+            description: "Não foi possível buscar nas conversas",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [session, searchQuery, roleFilter, dateRange, toast]);
+
+  const loadCounts = async () => {
     if (!session?.user) return;
+    setCounts(await fetchCounts(session.user.id));
+  };
+
+  /**
+   * Loads the next page of the current view, or restarts it without a cursor.
+   * Pinned conversations are few and always on top, so the first page of the
+   * active view brings all of them and the pages only cover the rest.
+   */
+  const loadConversations = async (cursor?: PageCursor) => {
+    if (!session?.user) return;
+
+    const listVersion = cursor ? listVersionRef.current : ++listVersionRef.current;
+    const archived = view === "archived";
+    setLoadingPage(true);
 
     try {
-      const { data, error } = await supabase
-        .from('conversations')
-        .select('id, title, created_at, updated_at')
-        .eq('user_id', session.user.id)
-        .order('updated_at', { ascending: false });
+      let pageQuery = supabase
+        .from('conversation_summaries')
+        .select(CONVERSATION_COLUMNS)
+        .eq('user_id', session.user.id);
+      pageQuery = archived
+        ? pageQuery.not('archived_at', 'is', null)
+        : pageQuery.is('archived_at', null).is('pinned_at', null);
+      if (cursor) pageQuery = pageQuery.or(afterCursor('updated_at', cursor));
 
-      if (error) throw error;
-      setConversations(data || []);
-    } catch (error: any) {
+      const pinnedQuery = cursor || archived
+        ? null
+        : supabase
+            .from('conversation_summaries')
+            .select(CONVERSATION_COLUMNS)
+            .eq('user_id', session.user.id)
+            .is('archived_at', null)
+            .not('pinned_at', 'is', null);
+
+      const [pageResult, pinnedResult] = await Promise.all([
+        pageQuery
+          .order('updated_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(PAGE_SIZE + 1),
+        pinnedQuery,
+      ]);
+
+      if (pageResult.error) throw pageResult.error;
+      if (pinnedResult?.error) throw pinnedResult.error;
+      if (listVersion !== listVersionRef.current) return;
+
+      const page = toPage(pageResult.data, PAGE_SIZE);
+      const last = page.items[page.items.length - 1];
+      setNextCursor(page.hasMore && last ? { value: last.updated_at, id: last.id } : null);
+
+      // A conversation unpinned meanwhile may come back in a later page
+      setConversations(prev => cursor
+        ? [...prev, ...page.items.filter(item => !prev.some(loaded => loaded.id === item.id))]
+        : [...(pinnedResult?.data || []), ...page.items]);
+    } catch (error) {
       console.error('Erro ao carregar conversas:', error);
+      // Stop paging; the observer would otherwise retry right away
+      setNextCursor(null);
       toast({
         title: "Erro",
         description: "Não foi possível carregar o histórico",
@@ -70,9 +279,15 @@ const ChatHistory = () => {
       });
     } finally {
       setLoading(false);
+      if (listVersion === listVersionRef.current) setLoadingPage(false);
     }
   };
 
+  const loadMoreRef = useInfiniteScroll<HTMLDivElement>(
+    () => nextCursor && loadConversations(nextCursor),
+    Boolean(nextCursor) && !loadingPage
+  );
+
   const createNewConversation = async () => {
     if (!session?.user) return;
 
@@ -98,6 +313,121 @@ const ChatHistory = () => {
     }
   };
 
+  // Applies the change right away and rolls it back if saving fails
+  const updateConversation = async (
+    conversation: ConversationSummary,
+    changes: ConversationChanges,
+    errorMessage: string
+  ) => {
+    setConversations(prev => prev.map(item =>
+      item.id === conversation.id ? { ...item, ...changes } : item
+    ));
+
+    const { error } = await supabase
+      .from('conversations')
+      .update(changes)
+      .eq('id', conversation.id);
+
+    if (error) {
+      console.error('Erro ao atualizar conversa:', error);
+      setConversations(prev => prev.map(item =>
+        item.id === conversation.id ? conversation : item
+      ));
+      toast({
+        title: "Erro",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const renameConversation = (conversation: ConversationSummary, title: string) =>
+    updateConversation(
+      conversation,
+      { title, title_source: 'user' },
+      "Não foi possível renomear a conversa"
+    );
+
+  const togglePin = (conversation: ConversationSummary) =>
+    updateConversation(
+      conversation,
+      { pinned_at: conversation.pinned_at ? null : new Date().toISOString() },
+      "Não foi possível fixar a conversa"
+    );
+
+  const toggleArchive = async (conversation: ConversationSummary) => {
+    const wasArchived = Boolean(conversation.archived_at);
+    const saved = await updateConversation(
+      conversation,
+      wasArchived
+        ? { archived_at: null }
+        : { archived_at: new Date().toISOString(), pinned_at: null },
+      wasArchived
+        ? "Não foi possível desarquivar a conversa"
+        : "Não foi possível arquivar a conversa"
+    );
+
+    if (saved) {
+      setCounts(prev => ({
+        active: prev.active + (wasArchived ? 1 : -1),
+        archived: prev.archived + (wasArchived ? -1 : 1),
+      }));
+    }
+  };
+
+  const deleteConversation = async (conversation: ConversationSummary) => {
+    const { error } = await supabase
+      .from('conversations')
+      .delete()
+      .eq('id', conversation.id);
+
+    if (error) {
+      console.error('Erro ao excluir conversa:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir a conversa",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setConversations(prev => prev.filter(item => item.id !== conversation.id));
+    const countedIn: HistoryView = conversation.archived_at ? "archived" : "active";
+    setCounts(prev => ({ ...prev, [countedIn]: prev[countedIn] - 1 }));
+    toast({ title: "Conversa excluída" });
+  };
+
+  // Bulk export covers the whole view, not only the pages loaded so far
+  const exportView = async (format: ExportFormat) => {
+    if (!session?.user) return;
+
+    let query = supabase
+      .from('conversations')
+      .select('id')
+      .eq('user_id', session.user.id);
+    query = view === "archived"
+      ? query.not('archived_at', 'is', null)
+      : query.is('archived_at', null);
+
+    const { data, error } = await query
+      .order('pinned_at', { ascending: false, nullsFirst: false })
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Erro ao listar conversas para exportar:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível exportar as conversas",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await exportConversations((data || []).map(conversation => conversation.id), format);
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     navigate("/auth");
@@ -107,6 +437,18 @@ const ChatHistory = () => {
     navigate(`/chat?conversation=${conversationId}`);
   };
 
+  // Message hits open the conversation scrolled to the message
+  const openSearchResult = (result: SearchResult) => {
+    navigate(result.messageId
+      ? `/chat?conversation=${result.conversationId}&message=${result.messageId}`
+      : `/chat?conversation=${result.conversationId}`);
+  };
+
+  // Conversations archived or restored in this view stay loaded but hidden
+  const visibleConversations = conversations
+    .filter(conversation => Boolean(conversation.archived_at) === (view === "archived"))
+    .sort(byPinThenActivity);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -138,6 +480,42 @@ const ChatHistory = () => {
               <Plus className="w-4 h-4 mr-2" />
               Nova Conversa
             </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => navigate("/watchlist")}
+              title="Listas de acompanhamento"
+              aria-label="Listas de acompanhamento"
+            >
+              <Star className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => navigate("/portfolio")}
+              title="Carteira"
+              aria-label="Carteira"
+            >
+              <Wallet className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setIsImportOpen(true)}
+              title="Importar conversas"
+              aria-label="Importar conversas"
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setIsSharesOpen(true)}
+              title="Links compartilhados"
+              aria-label="Links compartilhados"
+            >
+              <Link2 className="w-4 h-4" />
+            </Button>
             <Button variant="outline" size="icon" onClick={handleLogout}>
               <LogOut className="w-4 h-4" />
             </Button>
@@ -145,9 +523,25 @@ const ChatHistory = () => {
         </div>
       </div>
 
+      {session?.user && (
+        <ShareDialog open={isSharesOpen} onOpenChange={setIsSharesOpen} userId={session.user.id} />
+      )}
+
+      {session?.user && (
+        <ImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          userId={session.user.id}
+          onImported={() => {
+            loadCounts();
+            loadConversations();
+          }}
+        />
+      )}
+
       {/* Content */}
       <div className="max-w-4xl mx-auto p-6">
-        {conversations.length === 0 ? (
+        {counts.active + counts.archived === 0 && !loadingPage ? (
           <div className="text-center py-12 space-y-6">
             <MessageSquare className="w-20 h-20 text-muted-foreground mx-auto opacity-50" />
             <div>
@@ -168,37 +562,102 @@ const ChatHistory = () => {
           </div>
         ) : (
           <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <h2 className="text-lg font-semibold text-foreground">
-                Suas Conversas ({conversations.length})
-              </h2>
-            </div>
-            
-            <div className="grid gap-4">
-              {conversations.map((conversation) => (
-                <Card
-                  key={conversation.id}
-                  className="trading-card border-border/50 hover:border-primary/30 smooth-transition cursor-pointer"
-                  onClick={() => openConversation(conversation.id)}
+            <div className="space-y-3">
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Buscar nas conversas (ex.: ITUB4 dividendos)"
+                  className="pl-9 bg-input border-border/50 focus:border-primary"
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={roleFilter}
+                  onValueChange={(value) => value && setRoleFilter(value as MessageRole | "all")}
                 >
-                  <CardHeader className="pb-3">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-sm font-medium text-foreground">
-                        {conversation.title}
-                      </CardTitle>
-                      <Badge variant="secondary" className="text-xs">
-                        {new Date(conversation.updated_at).toLocaleDateString('pt-BR')}
-                      </Badge>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="pt-0">
-                    <p className="text-xs text-muted-foreground">
-                      Última atividade: {new Date(conversation.updated_at).toLocaleString('pt-BR')}
-                    </p>
-                  </CardContent>
-                </Card>
-              ))}
+                  <ToggleGroupItem value="all">Todas</ToggleGroupItem>
+                  <ToggleGroupItem value="user">Minhas</ToggleGroupItem>
+                  <ToggleGroupItem value="assistant">Do agente</ToggleGroupItem>
+                </ToggleGroup>
+                <DateRangeFilter value={dateRange} onChange={setDateRange} />
+              </div>
             </div>
+
+            {searchQuery.trim() ? (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <h2 className="text-lg font-semibold text-foreground">
+                    Resultados{searchResults && !searching ? ` (${searchResults.length})` : ''}
+                  </h2>
+                  {searching && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+                </div>
+                {searchResults && (
+                  <SearchResults results={searchResults} onOpen={openSearchResult} />
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-foreground">
+                    {view === "archived" ? "Arquivadas" : "Suas Conversas"} ({counts[view]})
+                  </h2>
+                  <div className="flex items-center space-x-2">
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={view}
+                      onValueChange={(value) => value && setView(value as HistoryView)}
+                    >
+                      <ToggleGroupItem value="active">Ativas</ToggleGroupItem>
+                      <ToggleGroupItem value="archived">
+                        <Archive className="w-4 h-4 mr-2" />
+                        Arquivadas ({counts.archived})
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                    <ExportMenu
+                      onExport={exportView}
+                      label={counts[view] === 1 ? "Exportar 1 conversa" : `Exportar ${counts[view]} conversas`}
+                      isExporting={isExporting}
+                      disabled={counts[view] === 0}
+                    />
+                  </div>
+                </div>
+
+                {visibleConversations.length === 0 && !loadingPage ? (
+                  <p className="text-center py-12 text-muted-foreground">
+                    {view === "archived"
+                      ? "Nenhuma conversa arquivada"
+                      : "Todas as suas conversas estão arquivadas"}
+                  </p>
+                ) : (
+                  <div className="grid gap-4">
+                    {visibleConversations.map((conversation) => (
+                      <ConversationCard
+                        key={conversation.id}
+                        conversation={conversation}
+                        onOpen={() => openConversation(conversation.id)}
+                        onRename={(title) => renameConversation(conversation, title)}
+                        onTogglePin={() => togglePin(conversation)}
+                        onToggleArchive={() => toggleArchive(conversation)}
+                        onDelete={() => deleteConversation(conversation)}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                <div ref={loadMoreRef} />
+                {loadingPage && (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                  </div>
+                )}
+              </>
+            )}
           </div>
         )}
       </div>
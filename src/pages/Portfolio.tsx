@@ -0,0 +1,599 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, FolderPlus, Loader2, Plus, Trash2, Wallet } from "lucide-react";
+import { Session } from "@supabase/supabase-js";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  OversoldPositionError,
+  byTradeOrder,
+  computePosition,
+  summarizePortfolio,
+  valueHolding,
+  type Transaction,
+  type TransactionType,
+} from "@/lib/portfolio";
+import { formatNumber } from "@/lib/format";
+import PortfolioSummary from "@/components/portfolio/PortfolioSummary";
+import HoldingsTable, { type HoldingRow } from "@/components/portfolio/HoldingsTable";
+import TransactionsTable, { type TransactionRow } from "@/components/portfolio/TransactionsTable";
+import TransactionDialog, { type TransactionInput } from "@/components/portfolio/TransactionDialog";
+
+type PortfolioRow = Pick<Tables<'portfolios'>, 'id' | 'name' | 'created_at'>;
+
+type StoredTransaction = Pick<
+  Tables<'transactions'>,
+  'id' | 'type' | 'quantity' | 'price' | 'fees' | 'traded_at' | 'notes' | 'created_at'
+>;
+
+interface HoldingData {
+  id: string;
+  symbol: string;
+  current_price: number | null;
+  transactions: StoredTransaction[];
+}
+
+interface TransactionDialogState {
+  symbol: string;
+  // Remounts the dialog so every opening starts from a clean form
+  key: number;
+}
+
+// Postgres numerics may come back as strings; the engine needs numbers
+const toTransaction = (row: StoredTransaction): Transaction => ({
+  id: row.id,
+  type: row.type as TransactionType,
+  quantity: Number(row.quantity),
+  price: Number(row.price),
+  fees: Number(row.fees),
+  traded_at: row.traded_at,
+  created_at: row.created_at,
+});
+
+const toHoldingData = (row: HoldingData): HoldingData => ({
+  ...row,
+  current_price: row.current_price === null ? null : Number(row.current_price),
+  transactions: row.transactions ?? [],
+});
+
+/** Null when the trades are consistent, otherwise the reason they are not. */
+const checkSequence = (transactions: Transaction[]) => {
+  try {
+    computePosition(transactions);
+    return null;
+  } catch (error) {
+    if (error instanceof OversoldPositionError) {
+      return `A venda deixaria a posição negativa: havia ${formatNumber(error.available, 8)} e foram vendidos ${formatNumber(error.requested, 8)}`;
+    }
+    throw error;
+  }
+};
+
+const Portfolio = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [portfolios, setPortfolios] = useState<PortfolioRow[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [holdings, setHoldings] = useState<HoldingData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingHoldings, setLoadingHoldings] = useState(false);
+  const [newPortfolioName, setNewPortfolioName] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [transactionDialog, setTransactionDialog] = useState<TransactionDialogState | null>(null);
+  const [deletingTransaction, setDeletingTransaction] = useState<TransactionRow | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      if (!session) {
+        navigate("/auth");
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        setSession(session);
+        if (!session) {
+          navigate("/auth");
+        }
+      }
+    );
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!session?.user) return;
+
+    const loadPortfolios = async () => {
+      const { data, error } = await supabase
+        .from('portfolios')
+        .select('id, name, created_at')
+        .eq('user_id', session.user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao carregar carteiras:', error);
+        toast({
+          title: "Erro",
+          description: "Não foi possível carregar suas carteiras",
+          variant: "destructive",
+        });
+      } else {
+        setPortfolios(data || []);
+        setSelectedId(prev => prev ?? data?.[0]?.id ?? null);
+      }
+      setLoading(false);
+    };
+
+    loadPortfolios();
+  }, [session, toast]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setHoldings([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadHoldings = async () => {
+      setLoadingHoldings(true);
+      const { data, error } = await supabase
+        .from('holdings')
+        .select('id, symbol, current_price, transactions(id, type, quantity, price, fees, traded_at, notes, created_at)')
+        .eq('portfolio_id', selectedId)
+        .order('symbol', { ascending: true });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Erro ao carregar posições:', error);
+        toast({
+          title: "Erro",
+          description: "Não foi possível carregar as posições da carteira",
+          variant: "destructive",
+        });
+        setHoldings([]);
+      } else {
+        setHoldings((data || []).map(toHoldingData));
+      }
+      setLoadingHoldings(false);
+    };
+
+    loadHoldings();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, toast]);
+
+  const selected = portfolios.find(portfolio => portfolio.id === selectedId) ?? null;
+
+  // A holding whose only trade failed to save has nothing to show
+  const activeHoldings = holdings.filter(holding => holding.transactions.length > 0);
+
+  const holdingRows: HoldingRow[] = activeHoldings.map(holding => {
+    const transactions = holding.transactions.map(toTransaction);
+    return {
+      id: holding.id,
+      ...valueHolding(holding.symbol, computePosition(transactions), holding.current_price),
+    };
+  });
+
+  const totals = summarizePortfolio(holdingRows);
+
+  const transactionRows: TransactionRow[] = activeHoldings
+    .flatMap(holding => holding.transactions.map(row => ({
+      ...toTransaction(row),
+      symbol: holding.symbol,
+      notes: row.notes,
+    })))
+    .sort((a, b) => byTradeOrder(b, a));
+
+  const showError = (description: string) => {
+    toast({ title: "Erro", description, variant: "destructive" });
+  };
+
+  const createPortfolio = async () => {
+    if (!session?.user || newPortfolioName === null) return;
+    const name = newPortfolioName.trim();
+    if (!name) return;
+
+    const { data, error } = await supabase
+      .from('portfolios')
+      .insert({ user_id: session.user.id, name })
+      .select('id, name, created_at')
+      .single();
+
+    if (error) {
+      console.error('Erro ao criar carteira:', error);
+      showError(error.code === '23505' ? "Já existe uma carteira com esse nome" : "Não foi possível criar a carteira");
+      return;
+    }
+    setPortfolios(prev => [...prev, data]);
+    setSelectedId(data.id);
+    setNewPortfolioName(null);
+  };
+
+  const deletePortfolio = async () => {
+    if (!selected) return;
+
+    const { error } = await supabase.from('portfolios').delete().eq('id', selected.id);
+    if (error) {
+      console.error('Erro ao excluir carteira:', error);
+      showError("Não foi possível excluir a carteira");
+      return;
+    }
+
+    const remaining = portfolios.filter(item => item.id !== selected.id);
+    setPortfolios(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+    toast({ title: "Carteira excluída", description: `"${selected.name}" foi excluída` });
+  };
+
+  const openTransactionDialog = (symbol = "") => {
+    setTransactionDialog({ symbol, key: Date.now() });
+  };
+
+  // Resolves with the message for the dialog, or null once saved
+  const addTransaction = async (input: TransactionInput): Promise<string | null> => {
+    if (!selected) return "Selecione uma carteira";
+
+    const existing = holdings.find(holding => holding.symbol === input.symbol);
+    const candidate: Transaction = {
+      id: "new",
+      type: input.type,
+      quantity: input.quantity,
+      price: input.price,
+      fees: input.fees,
+      traded_at: input.traded_at,
+      created_at: new Date().toISOString(),
+    };
+    // A back-dated trade can break sells recorded after it, so the whole history is replayed
+    const invalid = checkSequence([...(existing?.transactions.map(toTransaction) ?? []), candidate]);
+    if (invalid) return invalid;
+
+    try {
+      let holding = existing;
+      if (!holding) {
+        const { data, error } = await supabase
+          .from('holdings')
+          .upsert(
+            { portfolio_id: selected.id, symbol: input.symbol },
+            { onConflict: 'portfolio_id,symbol' }
+          )
+          .select('id, symbol, current_price')
+          .single();
+
+        if (error) throw error;
+        holding = toHoldingData({ ...data, transactions: [] });
+      }
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert({
+          holding_id: holding.id,
+          type: input.type,
+          quantity: input.quantity,
+          price: input.price,
+          fees: input.fees,
+          traded_at: input.traded_at,
+          notes: input.notes,
+        })
+        .select('id, type, quantity, price, fees, traded_at, notes, created_at')
+        .single();
+
+      if (error) throw error;
+
+      const saved = { ...holding, transactions: [...holding.transactions, data] };
+      setHoldings(prev => {
+        const others = prev.filter(item => item.id !== saved.id);
+        return [...others, saved].sort((a, b) => a.symbol.localeCompare(b.symbol));
+      });
+      toast({
+        title: "Operação registrada",
+        description: `${input.type === "buy" ? "Compra" : "Venda"} de ${formatNumber(input.quantity, 8)} ${input.symbol}`,
+      });
+      return null;
+    } catch (error) {
+      console.error('Erro ao registrar operação:', error);
+      return "Não foi possível registrar a operação";
+    }
+  };
+
+  const deleteTransaction = async () => {
+    const transaction = deletingTransaction;
+    if (!transaction) return;
+
+    const holding = holdings.find(item => item.transactions.some(row => row.id === transaction.id));
+    if (!holding) return;
+
+    const remaining = holding.transactions.filter(row => row.id !== transaction.id);
+    const invalid = checkSequence(remaining.map(toTransaction));
+    if (invalid) {
+      showError(`Exclua antes as vendas posteriores. ${invalid}`);
+      return;
+    }
+
+    const { error } = await supabase.from('transactions').delete().eq('id', transaction.id);
+    if (error) {
+      console.error('Erro ao excluir operação:', error);
+      showError("Não foi possível excluir a operação");
+      return;
+    }
+
+    setHoldings(prev => prev.map(item => item.id === holding.id ? { ...item, transactions: remaining } : item));
+  };
+
+  // Applies the price right away and rolls it back if saving fails
+  const updatePrice = async (row: HoldingRow, price: number | null) => {
+    const previous = holdings.find(holding => holding.id === row.id);
+    if (!previous) return;
+
+    setHoldings(prev => prev.map(holding => holding.id === row.id ? { ...holding, current_price: price } : holding));
+
+    const { error } = await supabase
+      .from('holdings')
+      .update({ current_price: price, price_updated_at: price === null ? null : new Date().toISOString() })
+      .eq('id', row.id);
+
+    if (error) {
+      console.error('Erro ao atualizar preço:', error);
+      setHoldings(prev => prev.map(holding => holding.id === row.id ? previous : holding));
+      showError(`Não foi possível atualizar o preço de ${row.symbol}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b border-border/50 trading-card p-4">
+        <div className="flex items-center justify-between max-w-6xl mx-auto">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate('/chat-history')}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 rounded-lg trading-gradient flex items-center justify-center">
+              <Wallet className="w-5 h-5 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="font-semibold text-foreground">Carteira</h1>
+              <p className="text-xs text-muted-foreground">Preço médio e resultado das suas operações, em reais</p>
+            </div>
+          </div>
+
+          <Button
+            onClick={() => setNewPortfolioName("")}
+            className="trading-gradient text-primary-foreground hover:opacity-90"
+          >
+            <FolderPlus className="w-4 h-4 mr-2" />
+            Nova carteira
+          </Button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        {portfolios.length === 0 ? (
+          <div className="text-center py-12 space-y-4">
+            <Wallet className="w-16 h-16 text-muted-foreground mx-auto opacity-50" />
+            <div>
+              <h3 className="text-lg font-semibold text-foreground">Nenhuma carteira ainda</h3>
+              <p className="text-muted-foreground">
+                Crie uma carteira e registre suas compras e vendas
+              </p>
+            </div>
+            <Button
+              onClick={() => setNewPortfolioName("")}
+              className="trading-gradient text-primary-foreground hover:opacity-90"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Criar primeira carteira
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <ToggleGroup
+                type="single"
+                value={selectedId ?? undefined}
+                onValueChange={(value) => value && setSelectedId(value)}
+                className="flex-wrap justify-start"
+              >
+                {portfolios.map((portfolio) => (
+                  <ToggleGroupItem key={portfolio.id} value={portfolio.id}>
+                    {portfolio.name}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+
+              {selected && (
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setIsConfirmingDelete(true)}
+                    className="text-destructive hover:text-destructive"
+                    title="Excluir carteira"
+                    aria-label="Excluir carteira"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => openTransactionDialog()}
+                    className="trading-gradient text-primary-foreground hover:opacity-90"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Nova operação
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {loadingHoldings ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : activeHoldings.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">
+                Nenhuma operação nesta carteira. Registre uma compra para começar.
+              </p>
+            ) : (
+              <>
+                <PortfolioSummary totals={totals} />
+
+                <Card className="trading-card border-border/50">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base font-semibold text-foreground">Posições</CardTitle>
+                  </CardHeader>
+                  <CardContent className="pt-0">
+                    <HoldingsTable
+                      holdings={holdingRows}
+                      onPriceChange={updatePrice}
+                      onAddTransaction={openTransactionDialog}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card className="trading-card border-border/50">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base font-semibold text-foreground">Operações</CardTitle>
+                  </CardHeader>
+                  <CardContent className="pt-0">
+                    <TransactionsTable transactions={transactionRows} onDelete={setDeletingTransaction} />
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {transactionDialog && (
+        <TransactionDialog
+          key={transactionDialog.key}
+          open
+          onOpenChange={(open) => !open && setTransactionDialog(null)}
+          onSubmit={addTransaction}
+          initialSymbol={transactionDialog.symbol}
+        />
+      )}
+
+      <Dialog open={newPortfolioName !== null} onOpenChange={(open) => !open && setNewPortfolioName(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nova carteira</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newPortfolioName ?? ""}
+            onChange={(e) => setNewPortfolioName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                createPortfolio();
+              }
+            }}
+            placeholder="Ex.: Aposentadoria, Dividendos, Cripto"
+            maxLength={60}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setNewPortfolioName(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={createPortfolio}
+              disabled={!newPortfolioName?.trim()}
+              className="trading-gradient text-primary-foreground hover:opacity-90"
+            >
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir carteira?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{selected?.name}" e todas as suas operações serão excluídas. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deletePortfolio}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={deletingTransaction !== null} onOpenChange={(open) => !open && setDeletingTransaction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir operação?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingTransaction && (
+                <>
+                  A {deletingTransaction.type === "buy" ? "compra" : "venda"} de{" "}
+                  {formatNumber(deletingTransaction.quantity, 8)} {deletingTransaction.symbol} será excluída e o
+                  preço médio recalculado.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteTransaction}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Portfolio;
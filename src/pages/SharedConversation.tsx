@@ -0,0 +1,133 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Eye, Link2Off, Loader2 } from "lucide-react";
+import { type SharedConversation as SharedConversationData, fetchSharedConversation } from "@/lib/conversation-share";
+import { formatDateTime } from "@/lib/format";
+import type { Message } from "@/lib/messages";
+import { type VersionSelection, buildThread, parentKey } from "@/lib/thread";
+import AgentIcon from "@/components/chat/AgentIcon";
+import MessageBubble from "@/components/chat/MessageBubble";
+
+// Public page behind a share link: no session needed, nothing can be sent
+const SharedConversation = () => {
+  const { token } = useParams<{ token: string }>();
+  const [conversation, setConversation] = useState<SharedConversationData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selection, setSelection] = useState<VersionSelection>({});
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchSharedConversation(token)
+      .then((result) => {
+        if (!cancelled) setConversation(result);
+      })
+      .catch((error) => {
+        console.error('Erro ao carregar conversa compartilhada:', error);
+        if (!cancelled) setConversation(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const selectVersion = (message: Message) => {
+    setSelection(prev => ({ ...prev, [parentKey(message)]: message.id }));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <Link2Off className="w-16 h-16 text-muted-foreground mx-auto opacity-50" />
+          <div>
+            <h1 className="text-lg font-semibold text-foreground">Link indisponível</h1>
+            <p className="text-muted-foreground">
+              Este link não existe, foi revogado ou expirou.
+            </p>
+          </div>
+          <Button asChild className="trading-gradient text-primary-foreground hover:opacity-90">
+            <Link to="/">Conhecer o Agente Trader</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const thread = buildThread(conversation.messages, selection);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <div className="border-b border-border/50 trading-card p-4">
+        <div className="flex items-center space-x-3 max-w-3xl mx-auto">
+          <div className="w-10 h-10 rounded-lg trading-gradient flex items-center justify-center flex-shrink-0">
+            <AgentIcon icon={conversation.agentIcon} className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="font-semibold text-foreground truncate">{conversation.title}</h1>
+            <p className="text-xs text-muted-foreground">
+              {conversation.agentName ?? "Agente Trader"} · {formatDateTime(conversation.updatedAt)}
+            </p>
+          </div>
+          <div className="flex-1" />
+          <Badge variant="secondary" className="text-xs flex-shrink-0">
+            <Eye className="w-3 h-3 mr-1" />
+            Somente leitura
+          </Badge>
+        </div>
+      </div>
+
+      {/* Messages Area */}
+      <ScrollArea className="flex-1 p-4">
+        <div className="space-y-4 max-w-3xl mx-auto">
+          {thread.length === 0 && (
+            <p className="text-center text-muted-foreground py-12">Esta conversa ainda não tem mensagens.</p>
+          )}
+
+          {thread.map(({ message, siblings, index }) => (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              versions={siblings}
+              versionIndex={index}
+              onSelectVersion={selectVersion}
+            />
+          ))}
+        </div>
+      </ScrollArea>
+
+      <div className="border-t border-border/50 p-4 bg-card/50">
+        <div className="flex items-center justify-between gap-3 max-w-3xl mx-auto text-sm text-muted-foreground">
+          <span>
+            {conversation.expiresAt
+              ? `Link válido até ${formatDateTime(conversation.expiresAt)}`
+              : "Conversa compartilhada do Agente Trader"}
+          </span>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/auth">Criar minha conta</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedConversation;
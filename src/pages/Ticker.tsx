@@ -0,0 +1,232 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, ChartCandlestick, ChartLine, Loader2, TrendingUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import PriceChart, { type ChartOverlays, type ChartView } from "@/components/market/PriceChart";
+import { useDailyHistory, useIntradayHistory, useQuote } from "@/hooks/use-market-data";
+import {
+  CHART_RANGES,
+  DEFAULT_CHART_RANGE,
+  dailyHistoryStart,
+  rangeStartIndex,
+  toWeeklyCandles,
+  type ChartRange,
+} from "@/lib/chart-ranges";
+import { formatCurrency, formatDateTime, formatNumber, formatPercent } from "@/lib/format";
+import { MarketDataError } from "@/lib/market-data";
+import { MARKET_LABELS, findTicker, normalizeSymbol } from "@/lib/tickers";
+
+const OVERLAY_OPTIONS: { id: keyof ChartOverlays; label: string }[] = [
+  { id: "sma20", label: "MM 20" },
+  { id: "sma50", label: "MM 50" },
+  { id: "bollinger", label: "Bollinger" },
+];
+
+const errorMessage = (error: Error | null, symbol: string) =>
+  error instanceof MarketDataError && error.code === "not_found"
+    ? `Não há cotações disponíveis para ${symbol}.`
+    : "Não foi possível carregar as cotações. Tente novamente em instantes.";
+
+const Ticker = () => {
+  const { symbol: rawSymbol = "" } = useParams();
+  const symbol = normalizeSymbol(rawSymbol);
+  const ticker = findTicker(symbol);
+  const [range, setRange] = useState<ChartRange>(DEFAULT_CHART_RANGE);
+  const [view, setView] = useState<ChartView>("candles");
+  const [overlays, setOverlays] = useState<ChartOverlays>({ sma20: true, sma50: false, bollinger: false });
+  const navigate = useNavigate();
+
+  const rangeOption = CHART_RANGES.find((option) => option.id === range) ?? CHART_RANGES[0];
+  const historyStart = useMemo(() => dailyHistoryStart(), []);
+
+  const quote = useQuote(ticker ? symbol : null);
+  const intraday = useIntradayHistory(ticker && rangeOption.source === "intraday" ? symbol : null);
+  const daily = useDailyHistory(ticker && rangeOption.source !== "intraday" ? symbol : null, historyStart);
+  const history = rangeOption.source === "intraday" ? intraday : daily;
+
+  const candles = useMemo(() => {
+    if (rangeOption.source === "intraday") return intraday.data ?? [];
+    if (rangeOption.source === "weekly") return toWeeklyCandles(daily.data ?? []);
+    return daily.data ?? [];
+  }, [rangeOption.source, intraday.data, daily.data]);
+
+  const visibleFrom = rangeStartIndex(candles, rangeOption);
+
+  if (!ticker) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center space-y-4">
+          <TrendingUp className="w-16 h-16 text-muted-foreground mx-auto opacity-50" />
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Ativo não reconhecido</h3>
+            <p className="text-muted-foreground">"{rawSymbol}" não é um código da B3 nem uma criptomoeda conhecida.</p>
+          </div>
+          <Button variant="outline" onClick={() => navigate(-1)}>
+            Voltar
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b border-border/50 trading-card p-4">
+        <div className="flex items-center justify-between gap-4 max-w-6xl mx-auto">
+          <div className="flex items-center space-x-3 min-w-0">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate(-1)}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 rounded-lg trading-gradient flex items-center justify-center flex-shrink-0">
+              <TrendingUp className="w-5 h-5 text-primary-foreground" />
+            </div>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <h1 className="font-semibold font-mono text-foreground">{symbol}</h1>
+                <Badge variant="outline" className="text-xs">
+                  {MARKET_LABELS[ticker.market]}
+                </Badge>
+              </div>
+              {ticker.name !== symbol && (
+                <p className="text-xs text-muted-foreground truncate">{ticker.name}</p>
+              )}
+            </div>
+          </div>
+
+          {quote.data && (
+            <div className="text-right">
+              <p className="text-xl font-semibold tabular-nums text-foreground">{formatCurrency(quote.data.price)}</p>
+              {quote.data.change !== null && quote.data.change_percent !== null && (
+                <p
+                  className={`text-sm tabular-nums ${
+                    quote.data.change >= 0 ? "text-success" : "text-destructive"
+                  }`}
+                >
+                  {quote.data.change > 0 ? "+" : ""}
+                  {formatCurrency(quote.data.change)} ({formatPercent(quote.data.change_percent)})
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-6xl mx-auto p-6 space-y-4">
+        <Card className="trading-card border-border/50">
+          <CardHeader className="pb-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={range}
+                onValueChange={(value) => value && setRange(value as ChartRange)}
+                className="flex-wrap justify-start"
+              >
+                {CHART_RANGES.map((option) => (
+                  <ToggleGroupItem key={option.id} value={option.id} title={option.label} aria-label={option.label}>
+                    {option.id}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <ToggleGroup
+                  type="multiple"
+                  size="sm"
+                  value={OVERLAY_OPTIONS.filter((option) => overlays[option.id]).map((option) => option.id)}
+                  onValueChange={(values) =>
+                    setOverlays({
+                      sma20: values.includes("sma20"),
+                      sma50: values.includes("sma50"),
+                      bollinger: values.includes("bollinger"),
+                    })
+                  }
+                >
+                  {OVERLAY_OPTIONS.map((option) => (
+                    <ToggleGroupItem key={option.id} value={option.id}>
+                      {option.label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={view}
+                  onValueChange={(value) => value && setView(value as ChartView)}
+                >
+                  <ToggleGroupItem value="candles" title="Candles" aria-label="Candles">
+                    <ChartCandlestick className="w-4 h-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="line" title="Linha" aria-label="Linha">
+                    <ChartLine className="w-4 h-4" />
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0">
+            {history.isLoading ? (
+              <div className="flex h-[420px] items-center justify-center">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : history.error || candles.length === 0 ? (
+              <div className="flex h-[420px] items-center justify-center text-center">
+                <p className="text-sm text-muted-foreground">
+                  {history.error
+                    ? errorMessage(history.error, symbol)
+                    : `Sem negociações de ${symbol} neste período.`}
+                </p>
+              </div>
+            ) : (
+              <PriceChart
+                candles={candles}
+                visibleFrom={visibleFrom}
+                intraday={rangeOption.source === "intraday"}
+                view={view}
+                overlays={overlays}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        {quote.data && (
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+            {[
+              { label: "Abertura", value: quote.data.open, currency: true },
+              { label: "Máxima", value: quote.data.high, currency: true },
+              { label: "Mínima", value: quote.data.low, currency: true },
+              { label: "Fechamento anterior", value: quote.data.previous_close, currency: true },
+              { label: "Volume", value: quote.data.volume, currency: false },
+            ].map(({ label, value, currency }) => (
+              <Card key={label} className="trading-card border-border/50">
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                  <p className="text-lg font-semibold tabular-nums text-foreground">
+                    {value === null ? "—" : currency ? formatCurrency(value) : formatNumber(value, 0)}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {quote.data && (
+          <p className="text-xs text-muted-foreground">Última negociação: {formatDateTime(quote.data.updated_at)}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Ticker;
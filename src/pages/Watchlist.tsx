@@ -0,0 +1,423 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, ListPlus, Loader2, Pencil, Plus, Star, Trash2 } from "lucide-react";
+import { Session } from "@supabase/supabase-js";
+import { useToast } from "@/components/ui/use-toast";
+import { findTicker } from "@/lib/tickers";
+import TickerSearchDialog from "@/components/watchlist/TickerSearchDialog";
+import WatchlistTable from "@/components/watchlist/WatchlistTable";
+
+type WatchlistRow = Pick<Tables<'watchlists'>, 'id' | 'name' | 'symbols' | 'created_at' | 'updated_at'>;
+
+interface NameDialogState {
+  mode: "create" | "rename";
+  name: string;
+}
+
+const moveItem = <T,>(items: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+const chatPrompt = (symbol: string) => {
+  const ticker = findTicker(symbol);
+  const name = ticker && ticker.name !== symbol ? ` (${ticker.name})` : "";
+  return `Quero uma análise atual de ${symbol}${name}: cenário, fundamentos e pontos de atenção.`;
+};
+
+const Watchlist = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [watchlists, setWatchlists] = useState<WatchlistRow[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [openingChat, setOpeningChat] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      if (!session) {
+        navigate("/auth");
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        setSession(session);
+        if (!session) {
+          navigate("/auth");
+        }
+      }
+    );
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!session?.user) return;
+
+    const loadWatchlists = async () => {
+      const { data, error } = await supabase
+        .from('watchlists')
+        .select('id, name, symbols, created_at, updated_at')
+        .eq('user_id', session.user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao carregar listas:', error);
+        toast({
+          title: "Erro",
+          description: "Não foi possível carregar suas listas",
+          variant: "destructive",
+        });
+      } else {
+        setWatchlists(data || []);
+        setSelectedId(prev => prev ?? data?.[0]?.id ?? null);
+      }
+      setLoading(false);
+    };
+
+    loadWatchlists();
+  }, [session, toast]);
+
+  const selected = watchlists.find(watchlist => watchlist.id === selectedId) ?? null;
+
+  const showError = (description: string) => {
+    toast({ title: "Erro", description, variant: "destructive" });
+  };
+
+  const submitName = async () => {
+    if (!nameDialog || !session?.user) return;
+    const name = nameDialog.name.trim();
+    if (!name) return;
+
+    if (nameDialog.mode === "create") {
+      const { data, error } = await supabase
+        .from('watchlists')
+        .insert({ user_id: session.user.id, name })
+        .select('id, name, symbols, created_at, updated_at')
+        .single();
+
+      if (error) {
+        console.error('Erro ao criar lista:', error);
+        showError(error.code === '23505' ? "Já existe uma lista com esse nome" : "Não foi possível criar a lista");
+        return;
+      }
+      setWatchlists(prev => [...prev, data]);
+      setSelectedId(data.id);
+    } else if (selected) {
+      const { error } = await supabase
+        .from('watchlists')
+        .update({ name, updated_at: new Date().toISOString() })
+        .eq('id', selected.id);
+
+      if (error) {
+        console.error('Erro ao renomear lista:', error);
+        showError(error.code === '23505' ? "Já existe uma lista com esse nome" : "Não foi possível renomear a lista");
+        return;
+      }
+      setWatchlists(prev => prev.map(item => item.id === selected.id ? { ...item, name } : item));
+    }
+    setNameDialog(null);
+  };
+
+  const deleteWatchlist = async () => {
+    if (!selected) return;
+
+    const { error } = await supabase.from('watchlists').delete().eq('id', selected.id);
+    if (error) {
+      console.error('Erro ao excluir lista:', error);
+      showError("Não foi possível excluir a lista");
+      return;
+    }
+
+    const remaining = watchlists.filter(item => item.id !== selected.id);
+    setWatchlists(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+    toast({ title: "Lista excluída", description: `"${selected.name}" foi excluída` });
+  };
+
+  // Applies the new order right away and rolls it back if saving fails
+  const saveSymbols = async (watchlist: WatchlistRow, symbols: string[], errorMessage: string) => {
+    setWatchlists(prev => prev.map(item => item.id === watchlist.id ? { ...item, symbols } : item));
+
+    const { error } = await supabase
+      .from('watchlists')
+      .update({ symbols, updated_at: new Date().toISOString() })
+      .eq('id', watchlist.id);
+
+    if (error) {
+      console.error('Erro ao salvar lista:', error);
+      setWatchlists(prev => prev.map(item => item.id === watchlist.id ? watchlist : item));
+      showError(errorMessage);
+    }
+  };
+
+  const addSymbol = (symbol: string) => {
+    if (!selected || selected.symbols.includes(symbol)) return;
+    saveSymbols(selected, [...selected.symbols, symbol], `Não foi possível adicionar ${symbol}`);
+  };
+
+  const removeSymbol = (symbol: string) => {
+    if (!selected) return;
+    saveSymbols(selected, selected.symbols.filter(item => item !== symbol), `Não foi possível remover ${symbol}`);
+  };
+
+  const moveSymbol = (index: number, offset: -1 | 1) => {
+    if (!selected) return;
+    saveSymbols(selected, moveItem(selected.symbols, index, offset), "Não foi possível reordenar a lista");
+  };
+
+  // A new conversation with the question ready to send (see `prompt` in Chat)
+  const openChat = async (symbol: string) => {
+    if (!session?.user) return;
+
+    setOpeningChat(true);
+    try {
+      const { data, error } = await supabase
+        .from('conversations')
+        .insert({
+          user_id: session.user.id,
+          title: `Nova Conversa ${new Date().toLocaleDateString('pt-BR')}`
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      navigate(`/chat?conversation=${data.id}&prompt=${encodeURIComponent(chatPrompt(symbol))}`);
+    } catch (error) {
+      console.error('Erro ao criar conversa:', error);
+      showError("Não foi possível criar nova conversa");
+      setOpeningChat(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b border-border/50 trading-card p-4">
+        <div className="flex items-center justify-between max-w-4xl mx-auto">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate('/chat-history')}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 rounded-lg trading-gradient flex items-center justify-center">
+              <Star className="w-5 h-5 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="font-semibold text-foreground">Listas de acompanhamento</h1>
+              <p className="text-xs text-muted-foreground">Ativos da B3 e criptomoedas que você segue</p>
+            </div>
+          </div>
+
+          <Button
+            onClick={() => setNameDialog({ mode: "create", name: "" })}
+            className="trading-gradient text-primary-foreground hover:opacity-90"
+          >
+            <ListPlus className="w-4 h-4 mr-2" />
+            Nova lista
+          </Button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        {watchlists.length === 0 ? (
+          <div className="text-center py-12 space-y-4">
+            <Star className="w-16 h-16 text-muted-foreground mx-auto opacity-50" />
+            <div>
+              <h3 className="text-lg font-semibold text-foreground">Nenhuma lista ainda</h3>
+              <p className="text-muted-foreground">
+                Crie uma lista para acompanhar ações, FIIs e criptomoedas
+              </p>
+            </div>
+            <Button
+              onClick={() => setNameDialog({ mode: "create", name: "" })}
+              className="trading-gradient text-primary-foreground hover:opacity-90"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Criar primeira lista
+            </Button>
+          </div>
+        ) : (
+          <>
+            <ToggleGroup
+              type="single"
+              value={selectedId ?? undefined}
+              onValueChange={(value) => value && setSelectedId(value)}
+              className="flex-wrap justify-start"
+            >
+              {watchlists.map((watchlist) => (
+                <ToggleGroupItem key={watchlist.id} value={watchlist.id}>
+                  {watchlist.name}
+                  <span className="ml-2 text-xs text-muted-foreground">{watchlist.symbols.length}</span>
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+
+            {selected && (
+              <Card className="trading-card border-border/50">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <CardTitle className="text-base font-semibold text-foreground truncate">
+                      {selected.name}
+                    </CardTitle>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setNameDialog({ mode: "rename", name: selected.name })}
+                        title="Renomear lista"
+                        aria-label="Renomear lista"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setIsConfirmingDelete(true)}
+                        className="text-destructive hover:text-destructive"
+                        title="Excluir lista"
+                        aria-label="Excluir lista"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        onClick={() => setIsSearchOpen(true)}
+                        className="trading-gradient text-primary-foreground hover:opacity-90"
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Adicionar ativo
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  {selected.symbols.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">
+                      Esta lista está vazia. Adicione ativos para acompanhá-los.
+                    </p>
+                  ) : (
+                    <WatchlistTable
+                      symbols={selected.symbols}
+                      onMove={moveSymbol}
+                      onRemove={removeSymbol}
+                      onChat={openChat}
+                      disabled={openingChat}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+
+      <TickerSearchDialog
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        onSelect={addSymbol}
+        exclude={selected?.symbols}
+      />
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.mode === "rename" ? "Renomear lista" : "Nova lista"}</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={nameDialog?.name ?? ""}
+            onChange={(e) => setNameDialog(prev => prev && { ...prev, name: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                submitName();
+              }
+            }}
+            placeholder="Ex.: Dividendos, Cripto, Small caps"
+            maxLength={60}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setNameDialog(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={submitName}
+              disabled={!nameDialog?.name.trim()}
+              className="trading-gradient text-primary-foreground hover:opacity-90"
+            >
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir lista?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{selected?.name}" e seus ativos serão excluídos. Suas conversas não são afetadas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteWatchlist}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Watchlist;
@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Most recent messages sent verbatim to the agent as history. */
+  readonly VITE_AGENT_CONTEXT_MAX_TURNS?: string;
+  /** Character budget for the history (and summary) sent to the agent. */
+  readonly VITE_AGENT_CONTEXT_MAX_CHARS?: string;
+  /** `fixtures` or `http`; defaults to `http` when a URL is set. */
+  readonly VITE_MARKET_DATA_PROVIDER?: string;
+  /** Base URL of the HTTP market data service (see src/lib/market-data-http.ts). */
+  readonly VITE_MARKET_DATA_URL?: string;
+  /** Ends up in the browser bundle: use a key meant to be public. */
+  readonly VITE_MARKET_DATA_API_KEY?: string;
+  /** Header carrying the key; `Authorization: Bearer` when unset. */
+  readonly VITE_MARKET_DATA_API_KEY_HEADER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
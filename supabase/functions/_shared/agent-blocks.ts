@@ -0,0 +1,93 @@
+// Plain-text rendition of structured agent replies (see
+// src/lib/agent-protocol.ts for the format). Stored as `messages.content`,
+// which feeds search, previews, exports and shares, and used by the client
+// as the fallback for blocks it cannot render. Kept free of imports so both
+// the Edge Functions and the app load the same code.
+
+type Block = Record<string, unknown>;
+
+// Same output as formatCurrency / formatPercent in src/lib/format.ts
+const formatCurrency = (value: number, currency = "BRL") => {
+  try {
+    return new Intl.NumberFormat("pt-BR", { style: "currency", currency }).format(value);
+  } catch {
+    return `${currency} ${new Intl.NumberFormat("pt-BR", { maximumFractionDigits: 2 }).format(value)}`;
+  }
+};
+
+const formatPercent = (value: number) =>
+  `${value > 0 ? "+" : ""}${new Intl.NumberFormat("pt-BR", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value)}%`;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number";
+const isOptionalString = (value: unknown) => value === undefined || isString(value);
+const isArrayOf = <T>(value: unknown, check: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(check);
+const isObject = (value: unknown): value is Block => Boolean(value) && typeof value === "object";
+const isCell = (value: unknown): value is string | number | null =>
+  value === null || isString(value) || isNumber(value);
+
+// Text of a block that is not (or not a valid) known block
+const fallbackText = (block: unknown) => {
+  if (!isObject(block)) return "";
+  if (isString(block.text)) return block.text;
+  if (isString(block.content)) return block.content;
+  return "";
+};
+
+const renderKnownBlock = (block: Block): string | null => {
+  switch (block.type) {
+    case "text":
+      return isString(block.text) ? block.text : null;
+    case "table": {
+      const { title, columns, rows } = block;
+      if (!isOptionalString(title) || !isArrayOf(columns, isString)) return null;
+      if (!Array.isArray(rows) || !rows.every((row) => isArrayOf(row, isCell))) return null;
+      const header = `| ${columns.join(" | ")} |`;
+      const divider = `| ${columns.map(() => "---").join(" | ")} |`;
+      const lines = (rows as (string | number | null)[][]).map((row) => `| ${row.map((cell) => cell ?? "").join(" | ")} |`);
+      return [title, header, divider, ...lines].filter(Boolean).join("\n");
+    }
+    case "price_chart": {
+      const { symbol, points } = block;
+      const currency = block.currency ?? "BRL";
+      if (!isString(symbol) || !isString(currency) || !Array.isArray(points) || points.length === 0) return null;
+      const last = points[points.length - 1];
+      if (!isObject(last) || !isString(last.time) || !isNumber(last.price)) return null;
+      return `${symbol}: ${formatCurrency(last.price, currency)} (${last.time})`;
+    }
+    case "ticker_card": {
+      const { symbol, name, price, change_percent } = block;
+      const currency = block.currency ?? "BRL";
+      if (!isString(symbol) || !isNumber(price) || !isString(currency) || !isOptionalString(name)) return null;
+      const change = isNumber(change_percent) ? ` (${formatPercent(change_percent)})` : "";
+      return `${symbol}${name ? ` - ${name}` : ""}: ${formatCurrency(price, currency)}${change}`;
+    }
+    case "metrics": {
+      const { title, items } = block;
+      if (!isOptionalString(title) || !Array.isArray(items)) return null;
+      if (!items.every((item) => isObject(item) && isString(item.label) && (isString(item.value) || isNumber(item.value)))) {
+        return null;
+      }
+      return [title, ...(items as Block[]).map((item) => `${item.label}: ${item.value}`)].filter(Boolean).join("\n");
+    }
+    case "actions": {
+      const { actions } = block;
+      if (!Array.isArray(actions) || !actions.every((action) => isObject(action) && isString(action.label))) return null;
+      return (actions as Block[]).map((action) => `• ${action.label}`).join("\n");
+    }
+    default:
+      return null;
+  }
+};
+
+/** One block as text; blocks of unknown types fall back to their `text` or `content`. */
+export const blockToPlainText = (block: unknown): string =>
+  (isObject(block) ? renderKnownBlock(block) : null) ?? fallbackText(block);
+
+/** Blocks joined by blank lines, skipping the ones without text. */
+export const blocksToPlainText = (blocks: unknown[]): string =>
+  blocks.map(blockToPlainText).filter((text) => text.trim() !== "").join("\n\n");
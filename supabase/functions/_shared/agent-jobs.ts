@@ -0,0 +1,99 @@
+// Asynchronous agent replies (see migrations/20261019220000_agent_jobs.sql).
+//
+// An agent accepts a job by answering `202 {"job_id": "...", "status_url": "..."}`
+// (`status_url` is optional). The reply then arrives either way:
+// - the agent POSTs it to the `callback_url` it received, or
+// - `agent-jobs` polls `status_url`, which answers
+//   `{"status": "processing" | "completed" | "failed", "reply"?, "error"?}`.
+// `reply` is what the agent would have sent synchronously: text or the
+// structured envelope.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { splitAgentReply } from "./agent-reply.ts";
+
+/** Jobs still processing after this long are given up on. */
+export const JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+export const JOB_COLUMNS = "id, message_id, agent_id, external_id, status_url, status, created_at";
+
+export interface AgentJob {
+  id: string;
+  message_id: string;
+  agent_id: string | null;
+  external_id: string;
+  status_url: string | null;
+  status: string;
+  created_at: string;
+}
+
+export interface JobAcceptance {
+  externalId: string;
+  statusUrl: string | null;
+}
+
+export const callbackUrl = (supabaseUrl: string, jobId: string) =>
+  `${supabaseUrl}/functions/v1/agent-callback?job=${jobId}`;
+
+/** Null when a 202 response does not carry a job id. */
+export const readJobAcceptance = async (response: Response): Promise<JobAcceptance | null> => {
+  const body = await response.json().catch(() => null);
+  const jobId = body?.job_id;
+  if (typeof jobId !== "string" && typeof jobId !== "number") return null;
+  return {
+    externalId: String(jobId),
+    statusUrl: typeof body.status_url === "string" ? body.status_url : null,
+  };
+};
+
+/** Structured replies may come as objects; the proxy stores them like streamed text. */
+export const toReplyText = (reply: unknown) =>
+  typeof reply === "string" ? reply : JSON.stringify(reply);
+
+const finishJob = async (admin: SupabaseClient, job: AgentJob, status: string, error: string | null) => {
+  const now = new Date().toISOString();
+  await admin
+    .from("agent_jobs")
+    .update({ status, error, updated_at: now, completed_at: now })
+    .eq("id", job.id);
+};
+
+/**
+ * Writes the reply into the job's message. Returns false when the job was
+ * already finished (e.g. the callback and a poll raced).
+ */
+export const completeJob = async (admin: SupabaseClient, job: AgentJob, reply: string) => {
+  if (!reply.trim()) return failJob(admin, job, "Resposta vazia do agente IA");
+
+  const { content, blocks } = splitAgentReply(reply);
+  const { data: message } = await admin
+    .from("messages")
+    .update({ content, blocks, status: null })
+    .eq("id", job.message_id)
+    .eq("status", "processing")
+    .select("conversation_id, parent_id")
+    .maybeSingle();
+  if (!message) return false;
+
+  await admin.from("messages").update({ status: "answered" }).eq("id", message.parent_id);
+  await admin
+    .from("conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", message.conversation_id);
+  await finishJob(admin, job, "completed", null);
+  return true;
+};
+
+/** Marks the job's message as failed; the user can ask for a new answer from it. */
+export const failJob = async (admin: SupabaseClient, job: AgentJob, error: string) => {
+  const { data: message } = await admin
+    .from("messages")
+    .update({ content: "Não foi possível concluir a análise.", status: "failed" })
+    .eq("id", job.message_id)
+    .eq("status", "processing")
+    .select("id")
+    .maybeSingle();
+  if (!message) return false;
+
+  await finishJob(admin, job, "failed", error);
+  return true;
+};
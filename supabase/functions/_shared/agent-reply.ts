@@ -0,0 +1,29 @@
+// Splits an agent reply into the stored `content` and `blocks`. Structured
+// replies (see src/lib/agent-protocol.ts) keep their blocks as sent, and the
+// content is their plain-text rendition, for search and exports.
+
+import { blocksToPlainText } from "./agent-blocks.ts";
+
+export interface StoredReply {
+  content: string;
+  blocks: { version: number; blocks: unknown[] } | null;
+}
+
+export const splitAgentReply = (reply: string): StoredReply => {
+  const trimmed = reply.trim();
+  if (!trimmed.startsWith("{")) return { content: reply, blocks: null };
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (parsed?.version !== 1 || !Array.isArray(parsed.blocks) || parsed.blocks.length === 0) {
+      return { content: reply, blocks: null };
+    }
+
+    return {
+      content: blocksToPlainText(parsed.blocks),
+      blocks: { version: parsed.version, blocks: parsed.blocks },
+    };
+  } catch {
+    return { content: reply, blocks: null };
+  }
+};
@@ -0,0 +1,143 @@
+// Reads an agent webhook response that may be plain text, chunked text or
+// Server-Sent Events, reporting the accumulated content as it arrives. Used
+// by agent-proxy and, through src/lib/agent-stream.ts, by the app.
+
+export type AgentStreamListener = (content: string) => void;
+
+/** Receives named SSE events (anything but the default `message` event). */
+export type AgentEventListener = (event: string, data: string) => void;
+
+const SSE_DONE = "[DONE]";
+
+// Streaming agents (OpenAI-style, n8n "respond to webhook" nodes, ...) wrap
+// each token in a JSON object; plain strings are accepted as-is.
+const extractSseToken = (data: string): string => {
+  try {
+    const parsed = JSON.parse(data);
+    if (typeof parsed === "string") return parsed;
+    if (parsed && typeof parsed === "object") {
+      const token =
+        parsed.delta ??
+        parsed.token ??
+        parsed.content ??
+        parsed.text ??
+        parsed.choices?.[0]?.delta?.content;
+      if (typeof token === "string") return token;
+    }
+    return "";
+  } catch {
+    return data;
+  }
+};
+
+export interface ReadAgentResponseOptions {
+  onEvent?: AgentEventListener;
+  /** Stops reading (and closes the connection) when aborted. */
+  signal?: AbortSignal;
+}
+
+const readChunks = async (
+  body: ReadableStream<Uint8Array>,
+  onChunk: (chunk: string) => void,
+  signal?: AbortSignal
+) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+
+  signal?.throwIfAborted();
+  const cancel = () => reader.cancel(signal?.reason).catch(() => undefined);
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk(decoder.decode(value, { stream: true }));
+  }
+
+  signal?.removeEventListener("abort", cancel);
+  signal?.throwIfAborted();
+
+  const rest = decoder.decode();
+  if (rest) onChunk(rest);
+};
+
+const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onUpdate: AgentStreamListener,
+  { onEvent, signal }: ReadAgentResponseOptions
+) => {
+  let buffer = "";
+  let content = "";
+  let finished = false;
+
+  const handleEvent = (rawEvent: string) => {
+    const lines = rawEvent.split(/\r?\n/);
+    const event = lines
+      .find((line) => line.startsWith("event:"))
+      ?.slice(6)
+      .trim();
+    const data = lines
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+
+    if (!data) return;
+    if (event && event !== "message") {
+      onEvent?.(event, data);
+      return;
+    }
+    if (data.trim() === SSE_DONE) {
+      finished = true;
+      return;
+    }
+
+    const token = extractSseToken(data);
+    if (token) {
+      content += token;
+      onUpdate(content);
+    }
+  };
+
+  await readChunks(body, (chunk) => {
+    if (finished) return;
+    buffer += chunk;
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? "";
+    events.forEach(handleEvent);
+  }, signal);
+
+  if (!finished && buffer.trim()) handleEvent(buffer);
+
+  return content;
+};
+
+/**
+ * Consumes the agent response body and resolves with the complete reply.
+ * `onUpdate` is called with the full content received so far, so callers can
+ * render the message as it grows. Plain and chunked bodies are read
+ * incrementally too, so non-streaming endpoints simply report once.
+ */
+export const readAgentResponse = async (
+  response: Response,
+  onUpdate: AgentStreamListener,
+  options: ReadAgentResponseOptions = {}
+): Promise<string> => {
+  const contentType = response.headers.get("content-type") || "";
+
+  if (!response.body) {
+    const content = await response.text();
+    onUpdate(content);
+    return content;
+  }
+
+  if (contentType.includes("text/event-stream")) {
+    return readEventStream(response.body, onUpdate, options);
+  }
+
+  let content = "";
+  await readChunks(response.body, (chunk) => {
+    content += chunk;
+    onUpdate(content);
+  }, options.signal);
+  return content;
+};
@@ -0,0 +1,33 @@
+// Agent lookup and request headers shared by the functions that talk to
+// agents (agent-proxy, agent-jobs).
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { signatureHeaders } from "./signature.ts";
+
+const AGENT_SIGNING_SECRET = Deno.env.get("AGENT_SIGNING_SECRET");
+
+export interface AgentRow {
+  id: string;
+  name: string;
+  endpoint: string;
+  auth_header_name: string | null;
+  auth_header_value: string | null;
+}
+
+/** The given agent, or the default one when `agentId` is null. Needs the service role. */
+export const loadAgent = async (admin: SupabaseClient, agentId: string | null): Promise<AgentRow | null> => {
+  const columns = "id, name, endpoint, auth_header_name, auth_header_value";
+  const query = agentId
+    ? admin.from("agents").select(columns).eq("id", agentId)
+    : admin.from("agents").select(columns).eq("is_default", true);
+  const { data } = await query.maybeSingle();
+  return data;
+};
+
+/** The agent's own auth header plus the HMAC signature of `body`. */
+export const agentHeaders = async (agent: AgentRow, body: string): Promise<Record<string, string>> => ({
+  ...(agent.auth_header_name && agent.auth_header_value
+    ? { [agent.auth_header_name]: agent.auth_header_value }
+    : {}),
+  ...(AGENT_SIGNING_SECRET ? await signatureHeaders(AGENT_SIGNING_SECRET, body) : {}),
+});
@@ -0,0 +1,63 @@
+// HMAC-SHA256 signatures for requests between the proxy and the agents.
+//
+//   X-Agent-Timestamp: <unix seconds>
+//   X-Agent-Signature: sha256=<hex HMAC of "<timestamp>.<raw body>">
+//
+// Agents should reject signatures that do not match or timestamps older than
+// a few minutes (replays).
+
+export const SIGNATURE_HEADER = "X-Agent-Signature";
+export const TIMESTAMP_HEADER = "X-Agent-Timestamp";
+export const MAX_SIGNATURE_AGE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+
+export const signPayload = async (secret: string, timestamp: string, body: string) => {
+  const key = await importKey(secret);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${toHex(signature)}`;
+};
+
+export const signatureHeaders = async (secret: string, body: string) => {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: await signPayload(secret, timestamp, body),
+  };
+};
+
+/** Constant-time check of a signed request, including its age. */
+export const verifySignature = async (
+  secret: string,
+  timestamp: string | null,
+  signature: string | null,
+  body: string,
+) => {
+  if (!timestamp || !signature) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > MAX_SIGNATURE_AGE_SECONDS) return false;
+
+  const expected = await signPayload(secret, timestamp, body);
+  if (expected.length !== signature.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+};
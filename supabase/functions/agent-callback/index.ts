@@ -0,0 +1,60 @@
+// Agent callback: where agents working asynchronously deliver their reply.
+//
+// The proxy sends each agent a `callback_url` pointing here with the job in
+// the query string (`?job=<id>`). The agent POSTs, signed like the proxy's
+// own requests, either `{"reply": ...}` or `{"error": "..."}`. The reply is
+// written into the job's message, which the chat picks up through realtime
+// or polling.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { type AgentJob, JOB_COLUMNS, completeJob, failJob, toReplyText } from "../_shared/agent-jobs.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from "../_shared/signature.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const AGENT_SIGNING_SECRET = Deno.env.get("AGENT_SIGNING_SECRET");
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return jsonResponse({ error: "Método não permitido" }, 405);
+
+  // Without the shared secret anyone could answer for the agent
+  if (!AGENT_SIGNING_SECRET) return jsonResponse({ error: "AGENT_SIGNING_SECRET não configurado" }, 500);
+
+  const raw = await req.text();
+  const valid = await verifySignature(
+    AGENT_SIGNING_SECRET,
+    req.headers.get(TIMESTAMP_HEADER),
+    req.headers.get(SIGNATURE_HEADER),
+    raw,
+  );
+  if (!valid) return jsonResponse({ error: "Assinatura inválida" }, 401);
+
+  let body: { reply?: unknown; error?: unknown };
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return jsonResponse({ error: "Corpo da requisição inválido" }, 400);
+  }
+
+  const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const { data: job } = await admin
+    .from("agent_jobs")
+    .select(JOB_COLUMNS)
+    .eq("id", new URL(req.url).searchParams.get("job") ?? "")
+    .maybeSingle<AgentJob>();
+  if (!job) return jsonResponse({ error: "Job não encontrado" }, 404);
+  if (job.status !== "processing") return jsonResponse({ error: "Job já finalizado" }, 409);
+
+  let finished: boolean;
+  if (typeof body?.error === "string") {
+    finished = await failJob(admin, job, body.error);
+  } else if (body?.reply !== undefined && body.reply !== null) {
+    finished = await completeJob(admin, job, toReplyText(body.reply));
+  } else {
+    return jsonResponse({ error: "Informe reply ou error" }, 400);
+  }
+
+  return finished ? jsonResponse({ ok: true }) : jsonResponse({ error: "Job já finalizado" }, 409);
+});
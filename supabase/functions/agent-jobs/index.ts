@@ -0,0 +1,93 @@
+// Agent jobs: the chat polls here while a reply is still processing.
+//
+// Body: `{"message_id": "..."}`, the placeholder assistant message. Answers
+// `{"message": <row>}` with the message as it is now, after checking the
+// agent's `status_url` (when it gave one) and giving up on jobs older than
+// JOB_TIMEOUT_MS. Agents that use the callback need no polling, but the
+// chat still reads the message here when realtime missed the update.
+
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  type AgentJob,
+  JOB_COLUMNS,
+  JOB_TIMEOUT_MS,
+  completeJob,
+  failJob,
+  toReplyText,
+} from "../_shared/agent-jobs.ts";
+import { agentHeaders, loadAgent } from "../_shared/agents.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STATUS_TIMEOUT_MS = 10000;
+
+const checkStatus = async (admin: SupabaseClient, job: AgentJob) => {
+  if (Date.now() - new Date(job.created_at).getTime() > JOB_TIMEOUT_MS) {
+    await failJob(admin, job, "Tempo esgotado");
+    return;
+  }
+  if (!job.status_url) return;
+
+  const agent = await loadAgent(admin, job.agent_id);
+  if (!agent) return;
+
+  try {
+    const response = await fetch(job.status_url, {
+      headers: { "Accept": "application/json", ...await agentHeaders(agent, "") },
+      signal: AbortSignal.timeout(STATUS_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`${agent.name} retornou status ${response.status} para o job ${job.external_id}`);
+      return;
+    }
+
+    const status = await response.json();
+    if (status?.status === "completed") {
+      await completeJob(admin, job, toReplyText(status.reply ?? ""));
+    } else if (status?.status === "failed") {
+      await failJob(admin, job, typeof status.error === "string" ? status.error : "Falha no agente");
+    }
+  } catch (error) {
+    // Try again on the next poll
+    console.error(`Erro ao consultar o job ${job.external_id} de ${agent.name}:`, error);
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return jsonResponse({ error: "Método não permitido" }, 405);
+
+  // The caller's own client: RLS decides whether the message is theirs
+  const authorization = req.headers.get("Authorization") ?? "";
+  const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authorization } },
+  });
+
+  let messageId: unknown;
+  try {
+    ({ message_id: messageId } = await req.json());
+  } catch {
+    return jsonResponse({ error: "Corpo da requisição inválido" }, 400);
+  }
+  if (typeof messageId !== "string") return jsonResponse({ error: "Corpo da requisição inválido" }, 400);
+
+  const loadMessage = () => supabase.from("messages").select().eq("id", messageId).maybeSingle();
+
+  const { data: message } = await loadMessage();
+  if (!message) return jsonResponse({ error: "Mensagem não encontrada" }, 404);
+  if (message.status !== "processing") return jsonResponse({ message });
+
+  const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const { data: job } = await admin
+    .from("agent_jobs")
+    .select(JOB_COLUMNS)
+    .eq("message_id", message.id)
+    .eq("status", "processing")
+    .maybeSingle<AgentJob>();
+  if (!job) return jsonResponse({ message });
+
+  await checkStatus(admin, job);
+  return jsonResponse({ message: (await loadMessage()).data });
+});
@@ -0,0 +1,347 @@
+// Agent proxy: the only way the chat reaches an agent.
+//
+// 1. Checks the caller's JWT and that the conversation belongs to them.
+// 2. Saves the user message (unless regenerating an answer).
+// 3. Calls the conversation's agent with an HMAC-signed payload.
+// 4. Streams the reply back as Server-Sent Events, then saves it.
+//    Agents that answer 202 with a job id get an empty `processing` assistant
+//    message instead, filled in later (see _shared/agent-jobs.ts).
+//
+// Stream format: `data: {"delta": "..."}` per chunk, then a `saved` event with
+// the stored rows (`{"user_message", "assistant_message"}`), or an `error`
+// event. Failures before the agent accepts the request are JSON errors.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { callbackUrl, readJobAcceptance } from "../_shared/agent-jobs.ts";
+import { splitAgentReply } from "../_shared/agent-reply.ts";
+import { readAgentResponse } from "../_shared/agent-stream.ts";
+import { agentHeaders, loadAgent } from "../_shared/agents.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+// Sends every agent request to one endpoint, e.g. the local agent-stub
+const AGENT_ENDPOINT_OVERRIDE = Deno.env.get("AGENT_ENDPOINT_OVERRIDE");
+const AGENT_IDLE_TIMEOUT_MS = 30000;
+
+interface ProxyRequest {
+  conversation_id: string;
+  message: {
+    id: string;
+    content: string;
+    parent_id: string | null;
+  };
+  /** Ask again for an answer to an existing user message. */
+  regenerate?: boolean;
+  context: {
+    history: { role: string; content: string; created_at: string }[];
+    summary: string | null;
+    dropped: number;
+    approx_tokens: number;
+  };
+}
+
+const isValidRequest = (body: ProxyRequest) =>
+  typeof body?.conversation_id === "string" &&
+  typeof body.message?.id === "string" &&
+  typeof body.message.content === "string" &&
+  body.message.content.trim() !== "" &&
+  Array.isArray(body.context?.history);
+
+const sse = (data: unknown, event?: string) =>
+  `${event ? `event: ${event}\n` : ""}data: ${JSON.stringify(data)}\n\n`;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return jsonResponse({ error: "Método não permitido" }, 405);
+
+  // The caller's own client: every read and write below goes through RLS
+  const authorization = req.headers.get("Authorization") ?? "";
+  const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user }, error: authError } = await supabase.auth.getUser(
+    authorization.replace(/^Bearer\s+/i, ""),
+  );
+  if (authError || !user) return jsonResponse({ error: "Sessão inválida" }, 401);
+
+  let body: ProxyRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Corpo da requisição inválido" }, 400);
+  }
+  if (!isValidRequest(body)) return jsonResponse({ error: "Corpo da requisição inválido" }, 400);
+
+  const { data: conversation } = await supabase
+    .from("conversations")
+    .select("id, agent_id")
+    .eq("id", body.conversation_id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (!conversation) return jsonResponse({ error: "Conversa não encontrada" }, 404);
+
+  // Agent credentials are not readable by clients, hence the service role
+  const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const agent = await loadAgent(admin, conversation.agent_id);
+  if (!agent) return jsonResponse({ error: "Nenhum agente configurado" }, 500);
+
+  const { message } = body;
+
+  // The client's copy is only trusted for new messages: ids, content and
+  // placement are checked against this conversation, and the row's
+  // created_at and version are set here.
+  const loadUserMessage = async () =>
+    (await supabase
+      .from("messages")
+      .select()
+      .eq("id", message.id)
+      .eq("conversation_id", conversation.id)
+      .eq("role", "user")
+      .maybeSingle()).data;
+
+  const nextVersionUnder = async (parentId: string | null) => {
+    let query = supabase
+      .from("messages")
+      .select("version")
+      .eq("conversation_id", conversation.id);
+    query = parentId ? query.eq("parent_id", parentId) : query.is("parent_id", null);
+    const { data: siblings } = await query.order("version", { ascending: false }).limit(1);
+    return (siblings?.[0]?.version ?? 0) + 1;
+  };
+
+  if (!body.regenerate) {
+    if (message.parent_id) {
+      const { data: parent } = await supabase
+        .from("messages")
+        .select("id")
+        .eq("id", message.parent_id)
+        .eq("conversation_id", conversation.id)
+        .maybeSingle();
+      if (!parent) return jsonResponse({ error: "Mensagem anterior não encontrada" }, 400);
+    }
+
+    const { error } = await supabase
+      .from("messages")
+      .insert({
+        id: message.id,
+        conversation_id: conversation.id,
+        content: message.content,
+        role: "user",
+        status: "pending",
+        parent_id: message.parent_id,
+        version: await nextVersionUnder(message.parent_id),
+      });
+
+    // Retries and outbox flushes send messages that are already saved
+    if (error && error.code !== "23505") {
+      console.error("Erro ao salvar mensagem do usuário:", error);
+      return jsonResponse({ error: "Não foi possível salvar a mensagem" }, 500);
+    }
+  }
+
+  // What the agent answers: the stored message, never the client's copy
+  const userMessage = await loadUserMessage();
+  if (!userMessage) return jsonResponse({ error: "Mensagem não encontrada" }, 404);
+
+  const setUserStatus = async (status: string) => {
+    if (body.regenerate) return;
+    await supabase.from("messages").update({ status }).eq("id", message.id);
+  };
+
+  // Where an agent working asynchronously delivers the reply
+  const jobId = crypto.randomUUID();
+
+  const nextReplyVersion = () => nextVersionUnder(message.id);
+
+  // Read back with its latest status
+  const loadSavedUserMessage = async () => (body.regenerate ? null : await loadUserMessage());
+
+  const payload = JSON.stringify({
+    message: userMessage.content,
+    user_id: user.id,
+    conversation_id: conversation.id,
+    history: body.context.history,
+    context: {
+      summary: body.context.summary,
+      dropped_messages: body.context.dropped,
+      approx_tokens: body.context.approx_tokens,
+    },
+    callback_url: callbackUrl(SUPABASE_URL, jobId),
+  });
+
+  const controller = new AbortController();
+  let idleTimer = setTimeout(() => controller.abort(), AGENT_IDLE_TIMEOUT_MS);
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => controller.abort(), AGENT_IDLE_TIMEOUT_MS);
+  };
+
+  let agentResponse: Response;
+  try {
+    agentResponse = await fetch(AGENT_ENDPOINT_OVERRIDE || agent.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Accept": "text/event-stream, text/plain, application/json",
+        ...await agentHeaders(agent, payload),
+      },
+      body: payload,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    clearTimeout(idleTimer);
+    console.error(`Erro ao chamar ${agent.name}:`, error);
+    await setUserStatus("failed");
+    return jsonResponse({ error: "O agente não está acessível" }, 502);
+  }
+
+  if (!agentResponse.ok) {
+    clearTimeout(idleTimer);
+    const details = await agentResponse.text().catch(() => "");
+    console.error(`${agent.name} retornou status ${agentResponse.status}:`, details);
+    await setUserStatus("failed");
+    return jsonResponse(
+      { error: `Webhook retornou status ${agentResponse.status}: ${details || agentResponse.statusText}` },
+      502,
+    );
+  }
+
+  await setUserStatus("sent");
+
+  if (agentResponse.status === 202) {
+    clearTimeout(idleTimer);
+    const acceptance = await readJobAcceptance(agentResponse);
+    if (!acceptance) {
+      console.error(`${agent.name} aceitou a mensagem sem informar o job_id`);
+      await setUserStatus("failed");
+      return jsonResponse({ error: "O agente não informou o job_id" }, 502);
+    }
+
+    const jobNotSaved = async (error: unknown) => {
+      console.error("Erro ao registrar job do agente:", error);
+      await setUserStatus("failed");
+      return jsonResponse({ error: "Não foi possível registrar a análise em andamento" }, 500);
+    };
+
+    const { data: assistantMessage, error } = await supabase
+      .from("messages")
+      .insert({
+        conversation_id: conversation.id,
+        content: "",
+        role: "assistant",
+        status: "processing",
+        parent_id: message.id,
+        version: await nextReplyVersion(),
+      })
+      .select()
+      .single();
+    if (error) return jobNotSaved(error);
+
+    const { error: jobError } = await admin.from("agent_jobs").insert({
+      id: jobId,
+      message_id: assistantMessage.id,
+      agent_id: agent.id,
+      external_id: acceptance.externalId,
+      status_url: acceptance.statusUrl,
+    });
+    if (jobError) {
+      await admin.from("messages").delete().eq("id", assistantMessage.id);
+      return jobNotSaved(jobError);
+    }
+
+    await supabase
+      .from("conversations")
+      .update({ updated_at: new Date().toISOString() })
+      .eq("id", conversation.id);
+
+    // Same `saved` event as a finished stream, with the placeholder as the reply
+    return new Response(
+      sse({ user_message: await loadSavedUserMessage(), assistant_message: assistantMessage }, "saved"),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      },
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (chunk: string) => {
+        if (!cancelled) stream.enqueue(encoder.encode(chunk));
+      };
+      let sent = "";
+
+      try {
+        const reply = await readAgentResponse(agentResponse, (content) => {
+          resetIdleTimer();
+          send(sse({ delta: content.slice(sent.length) }));
+          sent = content;
+        });
+        clearTimeout(idleTimer);
+
+        // The user pressed Stop: the client keeps the partial reply
+        if (cancelled) return;
+        if (!reply.trim()) throw new Error("Resposta vazia do agente IA");
+
+        const { content, blocks } = splitAgentReply(reply);
+        const { data: assistantMessage, error } = await supabase
+          .from("messages")
+          .insert({
+            conversation_id: conversation.id,
+            content,
+            blocks,
+            role: "assistant",
+            parent_id: message.id,
+            version: await nextReplyVersion(),
+          })
+          .select()
+          .single();
+        if (error) throw error;
+
+        // Stop pressed while saving: the client's interrupted partial is the
+        // reply, so this one goes (messages have no client delete policy)
+        if (cancelled) {
+          await admin.from("messages").delete().eq("id", assistantMessage.id);
+          return;
+        }
+
+        await setUserStatus("answered");
+        await supabase
+          .from("conversations")
+          .update({ updated_at: new Date().toISOString() })
+          .eq("id", conversation.id);
+
+        send(sse({ user_message: await loadSavedUserMessage(), assistant_message: assistantMessage }, "saved"));
+      } catch (error) {
+        clearTimeout(idleTimer);
+        if (cancelled) return;
+        console.error(`Erro na resposta de ${agent.name}:`, error);
+        await setUserStatus("failed");
+        send(sse({ error: error instanceof Error ? error.message : "Erro na resposta do agente" }, "error"));
+      } finally {
+        if (!cancelled) stream.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      clearTimeout(idleTimer);
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+});
@@ -0,0 +1,90 @@
+// Local stand-in for an agent webhook, for developing and testing the proxy
+// without n8n. Point the proxy at it with
+//   AGENT_ENDPOINT_OVERRIDE=http://localhost:54321/functions/v1/agent-stub
+//
+// It checks the HMAC signature (when AGENT_SIGNING_SECRET is set) and streams
+// back an echo of the message. Messages containing "/json" get a structured
+// reply, "/erro" a 500, "/lento" a slow stream and "/async" a job that is
+// ready ASYNC_JOB_DELAY_MS later on its status URL (GET on this function).
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from "../_shared/signature.ts";
+
+const AGENT_SIGNING_SECRET = Deno.env.get("AGENT_SIGNING_SECRET");
+const ASYNC_JOB_DELAY_MS = 20000;
+
+const structuredReply = (message: string) => ({
+  version: 1,
+  blocks: [
+    { type: "text", text: `**Resposta estruturada** para: ${message}` },
+    { type: "ticker_card", symbol: "PETR4", name: "Petrobras PN", price: 38.42, change: 0.57, change_percent: 1.51 },
+    {
+      type: "metrics",
+      title: "Indicadores",
+      items: [
+        { label: "P/L", value: 4.1 },
+        { label: "Dividend Yield", value: "14,2%" },
+      ],
+    },
+    { type: "actions", actions: [{ label: "Ver histórico", prompt: "Mostre o histórico de PETR4" }] },
+  ],
+});
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const raw = await req.text();
+
+  if (AGENT_SIGNING_SECRET) {
+    const valid = await verifySignature(
+      AGENT_SIGNING_SECRET,
+      req.headers.get(TIMESTAMP_HEADER),
+      req.headers.get(SIGNATURE_HEADER),
+      raw,
+    );
+    if (!valid) return jsonResponse({ error: "Assinatura inválida" }, 401);
+  }
+
+  // Status of an "/async" job; everything it needs travels in the URL
+  if (req.method === "GET") {
+    const url = new URL(req.url);
+    if (Date.now() < Number(url.searchParams.get("ready"))) return jsonResponse({ status: "processing" });
+    return jsonResponse({
+      status: "completed",
+      reply: `Análise concluída para: "${url.searchParams.get("message")}".`,
+    });
+  }
+
+  const { message, history } = JSON.parse(raw);
+
+  if (message.includes("/async")) {
+    const statusUrl = new URL(req.url);
+    statusUrl.search = new URLSearchParams({
+      message,
+      ready: String(Date.now() + ASYNC_JOB_DELAY_MS),
+    }).toString();
+    return jsonResponse({ job_id: crypto.randomUUID(), status_url: statusUrl.toString() }, 202);
+  }
+
+  if (message.includes("/erro")) return jsonResponse({ error: "Erro simulado" }, 500);
+  if (message.includes("/json")) return jsonResponse(structuredReply(message));
+
+  const reply = `Recebi sua mensagem: "${message}". Histórico com ${history?.length ?? 0} mensagens.`;
+  const delay = message.includes("/lento") ? 500 : 40;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const word of reply.split(/(?<= )/)) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ delta: word })}\n\n`));
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+  });
+});
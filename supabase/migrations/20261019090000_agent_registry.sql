@@ -0,0 +1,47 @@
+-- Registry of agents the chat can talk to
+create table public.agents (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique,
+  name text not null,
+  description text,
+  endpoint text not null,
+  icon text not null default 'bot',
+  auth_header_name text,
+  auth_header_value text,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Only one agent can be the default one
+create unique index agents_single_default on public.agents (is_default) where is_default;
+
+alter table public.agents enable row level security;
+
+create policy "Authenticated users can view agents"
+  on public.agents for select
+  to authenticated
+  using (true);
+
+-- Credentials never leave the database: clients may read every column but
+-- the auth header ones, which only the service role (server side) can see.
+revoke select on public.agents from anon, authenticated;
+
+grant select (id, slug, name, description, endpoint, icon, is_default, created_at, updated_at)
+  on public.agents to authenticated;
+
+insert into public.agents (slug, name, description, endpoint, icon, is_default)
+values (
+  'trader',
+  'Agente Trader',
+  'Análises de mercado, investimentos e estratégias financeiras',
+  'https://n8n.automabot.net.br/webhook/trader',
+  'trending-up',
+  true
+);
+
+-- Agent chosen for each conversation; null falls back to the default agent
+alter table public.conversations
+  add column agent_id uuid references public.agents (id) on delete set null;
+
+create index conversations_agent_id_idx on public.conversations (agent_id);
@@ -0,0 +1,24 @@
+-- Delivery status of user messages: pending -> sent -> answered, or failed
+alter table public.messages
+  add column status text
+  check (status in ('pending', 'sent', 'failed', 'answered'));
+
+-- Messages sent before statuses existed were all delivered
+update public.messages set status = 'answered' where role = 'user';
+
+create policy "Users can update messages in their conversations"
+  on public.messages for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.conversations
+      where conversations.id = messages.conversation_id
+        and conversations.user_id = auth.uid()
+    )
+  );
+
+-- Only the status: the rest of a message is written once, by the app or by
+-- agent-proxy, and never rewritten from a client.
+revoke update on public.messages from anon, authenticated;
+
+grant update (status) on public.messages to authenticated;
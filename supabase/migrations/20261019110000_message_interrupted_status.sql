@@ -0,0 +1,6 @@
+-- Assistant replies cut short by the user keep their partial content
+alter table public.messages drop constraint messages_status_check;
+
+alter table public.messages
+  add constraint messages_status_check
+  check (status in ('pending', 'sent', 'failed', 'answered', 'interrupted'));
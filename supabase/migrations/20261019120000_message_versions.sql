@@ -0,0 +1,17 @@
+-- Messages form a tree: each one follows its parent, and regenerated answers
+-- are siblings sharing the same parent, numbered by version
+alter table public.messages
+  add column parent_id uuid references public.messages (id) on delete cascade,
+  add column version integer not null default 1;
+
+create index messages_parent_id_idx on public.messages (parent_id);
+
+-- Existing conversations are linear: chain each message to the previous one
+update public.messages as m
+set parent_id = ordered.previous_id
+from (
+  select id, lag(id) over (partition by conversation_id order by created_at, id) as previous_id
+  from public.messages
+) as ordered
+where m.id = ordered.id
+  and ordered.previous_id is not null;
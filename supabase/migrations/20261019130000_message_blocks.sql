@@ -0,0 +1,4 @@
+-- Structured agent replies: { "version": 1, "blocks": [...] } as returned by
+-- the agent. `content` keeps a plain-text rendition of the blocks.
+alter table public.messages
+  add column blocks jsonb;
@@ -0,0 +1,6 @@
+-- Agents are now called by the agent-proxy Edge Function only. Clients can
+-- list agents but no longer see their endpoints or credentials.
+revoke select on public.agents from anon, authenticated;
+
+grant select (id, slug, name, description, icon, is_default, created_at, updated_at)
+  on public.agents to authenticated;
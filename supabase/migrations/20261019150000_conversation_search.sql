@@ -0,0 +1,82 @@
+-- Full-text search over conversation titles and message content (Portuguese
+-- stemming, so "dividendo" also finds "dividendos")
+alter table public.messages
+  add column content_search tsvector
+    generated always as (to_tsvector('portuguese', coalesce(content, ''))) stored;
+
+alter table public.conversations
+  add column title_search tsvector
+    generated always as (to_tsvector('portuguese', coalesce(title, ''))) stored;
+
+create index messages_content_search_idx on public.messages using gin (content_search);
+create index conversations_title_search_idx on public.conversations using gin (title_search);
+
+-- Best matches first. Title hits have no message_id and are skipped when
+-- filtering by role. Snippets mark each match between chr(2) and chr(3).
+-- Runs as the caller, so RLS limits results to their own conversations.
+create or replace function public.search_conversations(
+  search_query text,
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  message_role text default null,
+  max_results integer default 50
+)
+returns table (
+  conversation_id uuid,
+  conversation_title text,
+  message_id uuid,
+  role text,
+  snippet text,
+  created_at timestamptz,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with query as (
+    select
+      websearch_to_tsquery('portuguese', search_query) as q,
+      format(
+        'StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "',
+        chr(2), chr(3)
+      ) as options
+  )
+  select * from (
+    select
+      c.id,
+      c.title,
+      null::uuid,
+      null::text,
+      ts_headline('portuguese', c.title, query.q, query.options || ', HighlightAll=true'),
+      c.updated_at,
+      ts_rank(c.title_search, query.q) * 2
+    from public.conversations c, query
+    where c.title_search @@ query.q
+      and message_role is null
+      and (from_date is null or c.updated_at >= from_date)
+      and (to_date is null or c.updated_at < to_date)
+
+    union all
+
+    select
+      m.conversation_id,
+      c.title,
+      m.id,
+      m.role,
+      ts_headline('portuguese', m.content, query.q, query.options),
+      m.created_at,
+      ts_rank(m.content_search, query.q)
+    from public.messages m
+    join public.conversations c on c.id = m.conversation_id, query
+    where m.content_search @@ query.q
+      and (message_role is null or m.role = message_role)
+      and (from_date is null or m.created_at >= from_date)
+      and (to_date is null or m.created_at < to_date)
+  ) as hits (conversation_id, conversation_title, message_id, role, snippet, created_at, rank)
+  order by rank desc, created_at desc
+  limit max_results;
+$$;
+
+grant execute on function public.search_conversations(text, timestamptz, timestamptz, text, integer) to authenticated;
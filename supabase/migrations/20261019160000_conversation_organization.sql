@@ -0,0 +1,18 @@
+-- Pinned conversations stay on top of the history; archived ones move to a
+-- separate view. Both are timestamps so the most recent action sorts first.
+alter table public.conversations
+  add column pinned_at timestamptz,
+  add column archived_at timestamptz;
+
+-- Deleting a conversation takes its messages along
+alter table public.messages
+  drop constraint messages_conversation_id_fkey,
+  add constraint messages_conversation_id_fkey
+    foreign key (conversation_id) references public.conversations (id) on delete cascade;
+
+drop policy if exists "Users can delete their own conversations" on public.conversations;
+create policy "Users can delete their own conversations"
+  on public.conversations
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
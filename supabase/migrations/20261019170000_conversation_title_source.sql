@@ -0,0 +1,12 @@
+-- Where a conversation title came from: the "Nova Conversa <date>" default,
+-- generated from the first exchange, or typed by the user. Only default
+-- titles are ever replaced automatically.
+alter table public.conversations
+  add column title_source text not null default 'default'
+    check (title_source in ('default', 'auto', 'user'));
+
+-- Titles that are not the default were set by hand
+update public.conversations
+set title_source = 'user'
+where title is not null
+  and title not like 'Nova Conversa%';
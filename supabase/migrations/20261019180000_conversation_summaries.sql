@@ -0,0 +1,54 @@
+-- One row per conversation with what the history cards show: the last
+-- message, how many messages there are, the tickers mentioned and the agent
+-- that answers (the default one when none was picked). Runs as the caller,
+-- so RLS on the underlying tables still applies.
+create view public.conversation_summaries
+with (security_invoker = true) as
+select
+  c.id,
+  c.user_id,
+  c.title,
+  c.title_source,
+  c.created_at,
+  c.updated_at,
+  c.pinned_at,
+  c.archived_at,
+  c.agent_id,
+  a.name as agent_name,
+  a.icon as agent_icon,
+  last_message.content as last_message_content,
+  last_message.role as last_message_role,
+  last_message.created_at as last_message_at,
+  coalesce(stats.message_count, 0) as message_count,
+  coalesce(stats.tickers, '{}') as tickers
+from public.conversations c
+left join public.agents a
+  on a.id = coalesce(c.agent_id, (select id from public.agents where is_default limit 1))
+left join lateral (
+  select left(m.content, 200) as content, m.role, m.created_at
+  from public.messages m
+  where m.conversation_id = c.id
+  order by m.created_at desc
+  limit 1
+) as last_message on true
+left join lateral (
+  select
+    count(*)::integer as message_count,
+    -- Same patterns as extractTickers in src/lib/conversation-title.ts
+    array(
+      select distinct ticker[1]
+      from public.messages tm,
+        regexp_matches(
+          tm.content,
+          '\m([A-Z]{4}[0-9]{1,2}F?|BTC|ETH|SOL|ADA|XRP|BNB|DOGE|DOT|AVAX|LTC|LINK|MATIC|USDT|USDC)\M',
+          'g'
+        ) as ticker
+      where tm.conversation_id = c.id
+      order by 1
+      limit 8
+    ) as tickers
+  from public.messages m
+  where m.conversation_id = c.id
+) as stats on true;
+
+grant select on public.conversation_summaries to authenticated;
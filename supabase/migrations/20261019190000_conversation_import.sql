@@ -0,0 +1,6 @@
+-- Imported conversations get new ids; the id they had in the archive is kept
+-- to recognise the same archive being imported twice
+alter table public.conversations
+  add column imported_from uuid;
+
+create index conversations_imported_from_idx on public.conversations (user_id, imported_from);
@@ -0,0 +1,22 @@
+-- Stream changes to open chats and history pages (other tabs, other devices,
+-- replies written by n8n). Realtime applies the tables' RLS policies, so
+-- each user only receives their own rows. Delete events carry only the old
+-- row's primary key (the default replica identity; with RLS, Realtime sends
+-- no more even under `replica identity full`), which is all the chat needs.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'messages'
+  ) then
+    alter publication supabase_realtime add table public.messages;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'conversations'
+  ) then
+    alter publication supabase_realtime add table public.conversations;
+  end if;
+end
+$$;
@@ -0,0 +1,89 @@
+-- Read-only links to a conversation for people without an account. The
+-- token is the secret in the URL; revoking keeps the row so owners can see
+-- what was shared.
+create table public.conversation_shares (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  token uuid not null unique default gen_random_uuid(),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index conversation_shares_conversation_id_idx on public.conversation_shares (conversation_id);
+create index conversation_shares_user_id_idx on public.conversation_shares (user_id);
+
+alter table public.conversation_shares enable row level security;
+
+create policy "Users can view their own share links"
+  on public.conversation_shares for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can share their own conversations"
+  on public.conversation_shares for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.conversations c
+      where c.id = conversation_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can revoke their own share links"
+  on public.conversation_shares for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Revoking is the only change: pointing a link at another conversation (or
+-- swapping its token) would share what the get_shared_conversation definer
+-- function is there to protect.
+revoke update on public.conversation_shares from anon, authenticated;
+
+grant update (revoked_at) on public.conversation_shares to authenticated;
+
+-- The only way in for visitors: returns the conversation behind a valid
+-- token (not revoked, not expired) as JSON, or null. Delivery statuses and
+-- owner details are left out.
+create or replace function public.get_shared_conversation(share_token uuid)
+returns json
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select json_build_object(
+    'title', coalesce(c.title, 'Conversa'),
+    'agent_name', a.name,
+    'agent_icon', a.icon,
+    'created_at', c.created_at,
+    'updated_at', c.updated_at,
+    'expires_at', s.expires_at,
+    'messages', coalesce((
+      select json_agg(json_build_object(
+        'id', m.id,
+        'parent_id', m.parent_id,
+        'role', m.role,
+        'content', m.content,
+        'blocks', m.blocks,
+        'version', m.version,
+        'created_at', m.created_at
+      ) order by m.created_at)
+      from public.messages m
+      where m.conversation_id = c.id
+    ), '[]'::json)
+  )
+  from public.conversation_shares s
+  join public.conversations c on c.id = s.conversation_id
+  left join public.agents a
+    on a.id = coalesce(c.agent_id, (select id from public.agents where is_default limit 1))
+  where s.token = share_token
+    and s.revoked_at is null
+    and (s.expires_at is null or s.expires_at > now());
+$$;
+
+revoke execute on function public.get_shared_conversation(uuid) from public;
+grant execute on function public.get_shared_conversation(uuid) to anon, authenticated;
@@ -0,0 +1,32 @@
+-- Asynchronous agent replies. An agent that needs longer than the proxy's
+-- idle timeout answers 202 with a job id; the proxy saves an empty assistant
+-- message with status 'processing' and records the job here. The reply is
+-- written into that message later, by the agent calling `agent-callback` or
+-- by `agent-jobs` polling the agent's status URL.
+alter table public.messages drop constraint messages_status_check;
+
+alter table public.messages
+  add constraint messages_status_check
+  check (status in ('pending', 'sent', 'failed', 'answered', 'interrupted', 'processing'));
+
+create table public.agent_jobs (
+  id uuid primary key default gen_random_uuid(),
+  -- The assistant message the reply goes into
+  message_id uuid not null unique references public.messages (id) on delete cascade,
+  agent_id uuid references public.agents (id) on delete set null,
+  -- Job id as known by the agent
+  external_id text not null,
+  status_url text,
+  status text not null default 'processing'
+    check (status in ('processing', 'completed', 'failed')),
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index agent_jobs_processing_idx on public.agent_jobs (created_at) where status = 'processing';
+
+-- Only the Edge Functions (service role) read and write jobs; clients follow
+-- the assistant message instead
+alter table public.agent_jobs enable row level security;
@@ -0,0 +1,35 @@
+-- Named lists of the assets a user follows (B3 and crypto tickers). A list
+-- is small and always edited as a whole, so its tickers are one array in
+-- display order.
+create table public.watchlists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) > 0),
+  symbols text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.watchlists enable row level security;
+
+create policy "Users can view their own watchlists"
+  on public.watchlists for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own watchlists"
+  on public.watchlists for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own watchlists"
+  on public.watchlists for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own watchlists"
+  on public.watchlists for delete
+  to authenticated
+  using (auth.uid() = user_id);
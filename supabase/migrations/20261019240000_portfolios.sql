@@ -0,0 +1,86 @@
+-- Portfolio tracking. Transactions (buys and sells in BRL) are the source of
+-- truth; quantities, average price and P&L are computed by the client (see
+-- src/lib/portfolio.ts). A holding is an asset of the portfolio, with the
+-- last price the user entered for unrealized P&L.
+create table public.portfolios (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create table public.holdings (
+  id uuid primary key default gen_random_uuid(),
+  portfolio_id uuid not null references public.portfolios (id) on delete cascade,
+  symbol text not null,
+  current_price numeric check (current_price >= 0),
+  price_updated_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (portfolio_id, symbol)
+);
+
+create table public.transactions (
+  id uuid primary key default gen_random_uuid(),
+  holding_id uuid not null references public.holdings (id) on delete cascade,
+  type text not null check (type in ('buy', 'sell')),
+  quantity numeric not null check (quantity > 0),
+  price numeric not null check (price >= 0),
+  -- Brokerage, B3 fees and taxes paid on the trade, in BRL
+  fees numeric not null default 0 check (fees >= 0),
+  traded_at date not null default current_date,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index holdings_portfolio_id_idx on public.holdings (portfolio_id);
+create index transactions_holding_id_idx on public.transactions (holding_id, traded_at);
+
+alter table public.portfolios enable row level security;
+alter table public.holdings enable row level security;
+alter table public.transactions enable row level security;
+
+create policy "Users can manage their own portfolios"
+  on public.portfolios for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can manage holdings in their portfolios"
+  on public.holdings for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.portfolios
+      where portfolios.id = holdings.portfolio_id
+        and portfolios.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.portfolios
+      where portfolios.id = holdings.portfolio_id
+        and portfolios.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can manage transactions in their portfolios"
+  on public.transactions for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.holdings
+      join public.portfolios on portfolios.id = holdings.portfolio_id
+      where holdings.id = transactions.holding_id
+        and portfolios.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.holdings
+      join public.portfolios on portfolios.id = holdings.portfolio_id
+      where holdings.id = transactions.holding_id
+        and portfolios.user_id = auth.uid()
+    )
+  );